@@ -80,13 +80,20 @@ function eventTypeLabel(eventType: OsEventTypeList | undefined): string {
 
 function ensureQuicktestEditorUi(initialSource: string, setStatus: SetStatus): {
   getSource: () => string
+  setSource: (source: string) => void
   resetToFileSource: () => void
 } {
   const appRoot = document.getElementById('app')
   if (!appRoot) {
+    let source = initialSource
     return {
-      getSource: () => initialSource,
-      resetToFileSource: () => undefined,
+      getSource: () => source,
+      setSource: (next) => {
+        source = next
+      },
+      resetToFileSource: () => {
+        source = initialSource
+      },
     }
   }
 
@@ -95,6 +102,9 @@ function ensureQuicktestEditorUi(initialSource: string, setStatus: SetStatus): {
     const textarea = document.getElementById('quicktest-source-textarea') as HTMLTextAreaElement | null
     return {
       getSource: () => textarea?.value ?? initialSource,
+      setSource: (source) => {
+        if (textarea) textarea.value = source
+      },
       resetToFileSource: () => {
         if (textarea) textarea.value = initialSource
       },
@@ -157,6 +167,9 @@ function ensureQuicktestEditorUi(initialSource: string, setStatus: SetStatus): {
 
   return {
     getSource: () => textarea.value,
+    setSource: (source) => {
+      textarea.value = source
+    },
     resetToFileSource: () => {
       textarea.value = initialSource
     },
@@ -221,6 +234,30 @@ export function createQuicktestActions(setStatus: SetStatus): AppActions {
     appendEventLog('Quicktest: page rebuilt')
   }
 
+  async function renderOrReportError() {
+    try {
+      await renderCurrentSource()
+    } catch (error) {
+      console.error('[quicktest] connect failed', error)
+      setStatus('Quicktest: failed to render source input (check code syntax/container)')
+      appendEventLog('Quicktest: render failed')
+    }
+  }
+
+  // Source pushed from the editor through even-dev's POST /__quicktest/source.
+  if (import.meta.hot) {
+    import.meta.hot.on('even-dev:quicktest-source', (payload: { source: string }) => {
+      editorUi.setSource(payload.source)
+      setStatus('Quicktest: source received from editor. Rendering page...')
+      appendEventLog('Quicktest: source pushed from editor')
+      void renderOrReportError()
+    })
+    // Announce the page on every websocket connection; the server forgets it
+    // when the socket closes.
+    import.meta.hot.on('vite:ws:connect', () => import.meta.hot?.send('even-dev:quicktest-ready'))
+    import.meta.hot.send('even-dev:quicktest-ready')
+  }
+
   return {
     async connect() {
       try {
@@ -243,13 +280,7 @@ export function createQuicktestActions(setStatus: SetStatus): AppActions {
     },
 
     async render() {
-      try {
-        await renderCurrentSource()
-      } catch (error) {
-        console.error('[quicktest] connect failed', error)
-        setStatus('Quicktest: failed to render source input (check code syntax/container)')
-        appendEventLog('Quicktest: render failed')
-      }
+      await renderOrReportError()
     },
 
     async action() {
@@ -1,6 +1,7 @@
 import { lookup } from 'node:dns/promises'
 import { isIP } from 'node:net'
 import type { Plugin } from 'vite'
+import { createProxyPlugin } from '../../vite-plugins/proxy'
 
 const APP_USER_AGENT = 'even-dev-restapi/0.1.0 (local development)'
 const APP_REFERER = 'http://localhost:5176/'
@@ -13,23 +14,19 @@ type HostnameIpCacheEntry = {
 
 const hostnameIpCache = new Map<string, HostnameIpCacheEntry>()
 
-function buildProxyHeaders(target: URL, resolvedAddress?: string): Headers {
-  const headers = new Headers({
+function buildProxyHeaders(target: URL): Record<string, string> {
+  const headers: Record<string, string> = {
     Accept: 'application/json,text/plain;q=0.9,*/*;q=0.8',
     'User-Agent': APP_USER_AGENT,
-  })
+  }
 
   if (target.protocol === 'http:' || target.protocol === 'https:') {
-    headers.set('Referer', APP_REFERER)
+    headers.Referer = APP_REFERER
   }
 
   // Nominatim blocks anonymous/default clients; send an explicit app identity.
   if (target.hostname === 'nominatim.openstreetmap.org') {
-    headers.set('Accept-Language', 'en')
-  }
-
-  if (resolvedAddress) {
-    headers.set('Host', target.host)
+    headers['Accept-Language'] = 'en'
   }
 
   return headers
@@ -77,65 +74,33 @@ function buildResolvedTargetUrl(target: URL, resolvedAddress: string): URL {
   return resolvedUrl
 }
 
-async function fetchUpstream(target: URL): Promise<Response> {
+async function fetchUpstream(target: URL, init: RequestInit): Promise<Response> {
   const resolvedAddress = await resolveCachedAddress(target)
-  const fetchTarget = resolvedAddress ? buildResolvedTargetUrl(target, resolvedAddress) : target
+  if (!resolvedAddress) {
+    return fetch(target, init)
+  }
 
+  const headers = new Headers(init.headers)
+  headers.set('Host', target.host)
   try {
-    return await fetch(fetchTarget, {
-      method: 'GET',
-      headers: buildProxyHeaders(target, resolvedAddress ?? undefined),
-    })
+    return await fetch(buildResolvedTargetUrl(target, resolvedAddress), { ...init, headers })
   } catch (error) {
-    if (!resolvedAddress) {
+    if (init.signal?.aborted) {
       throw error
     }
 
     clearCachedAddress(target)
-    return fetch(target, {
-      method: 'GET',
-      headers: buildProxyHeaders(target),
-    })
+    return fetch(target, init)
   }
 }
 
 export default function restapiProxy(): Plugin {
-  return {
+  return createProxyPlugin({
     name: 'restapi-proxy',
-    configureServer(server) {
-      server.middlewares.use('/__restapi_proxy', async (req, res) => {
-        if (req.method !== 'GET') {
-          res.statusCode = 405
-          res.setHeader('content-type', 'text/plain; charset=utf-8')
-          res.end('Method Not Allowed')
-          return
-        }
-
-        try {
-          const parsed = new URL(req.url ?? '', 'http://localhost')
-          const target = parsed.searchParams.get('url')?.trim() ?? ''
-          if (!target || (!target.startsWith('http://') && !target.startsWith('https://'))) {
-            res.statusCode = 400
-            res.setHeader('content-type', 'text/plain; charset=utf-8')
-            res.end('Missing or invalid "url" query parameter')
-            return
-          }
-
-          const targetUrl = new URL(target)
-          const upstream = await fetchUpstream(targetUrl)
-          const body = await upstream.text()
-          const contentType = upstream.headers.get('content-type') ?? 'text/plain; charset=utf-8'
-
-          res.statusCode = upstream.status
-          res.setHeader('content-type', contentType)
-          res.end(body)
-        } catch (error) {
-          res.statusCode = 502
-          res.setHeader('content-type', 'text/plain; charset=utf-8')
-          const message = error instanceof Error ? error.message : String(error)
-          res.end(`Proxy request failed: ${message}`)
-        }
-      })
-    },
-  }
+    label: 'Proxy',
+    route: '/__restapi_proxy',
+    queryParam: 'url',
+    headers: { request: buildProxyHeaders },
+    fetch: fetchUpstream,
+  })
 }
@@ -148,8 +148,9 @@ resolve_registry_git_url() {
     if (!fs.existsSync("apps.json")) process.exit(0);
     const map = JSON.parse(fs.readFileSync("apps.json", "utf8"));
     const raw = map[name];
-    if (typeof raw !== "string") process.exit(0);
-    const base = raw.split("#")[0];
+    const source = typeof raw === "string" ? raw : (raw && raw.source);
+    if (typeof source !== "string") process.exit(0);
+    const base = source.split("#")[0];
     if (base.startsWith("https://") || base.startsWith("git@")) {
       console.log(base);
     }
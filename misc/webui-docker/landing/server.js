@@ -269,7 +269,7 @@ function buildAppsList() {
       kind: 'external',
       name,
       key: `external:${name}`,
-      sourceLabel: cloned ? `.apps-cache/${name}` : String(raw),
+      sourceLabel: cloned ? `.apps-cache/${name}` : String(typeof raw === 'string' ? raw : raw?.source),
       cached: cloned,
     }
   }).sort((a, b) => a.name.localeCompare(b.name))
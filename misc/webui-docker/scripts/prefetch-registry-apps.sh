@@ -14,14 +14,20 @@ mkdir -p .apps-cache
 while IFS= read -r app_name; do
   [ -z "$app_name" ] && continue
 
-  raw_entry="$(APP_LOOKUP_NAME="$app_name" node -e '
+  # Prints "<source>\t<ref>"; string entries are shorthand for { source }.
+  lookup="$(APP_LOOKUP_NAME="$app_name" node -e '
     const fs = require("fs");
     const name = process.env.APP_LOOKUP_NAME;
     const map = JSON.parse(fs.readFileSync("apps.json", "utf8"));
     const raw = map[name];
-    if (typeof raw === "string" && raw.length > 0) console.log(raw);
+    const entry = typeof raw === "string" ? { source: raw } : (raw || {});
+    if (typeof entry.source === "string" && entry.source.length > 0) {
+      console.log(`${entry.source}\t${typeof entry.ref === "string" ? entry.ref : ""}`);
+    }
   ')"
 
+  raw_entry="${lookup%%$'\t'*}"
+  pinned_ref="${lookup#*$'\t'}"
   base_url="${raw_entry%%#*}"
   if [[ "$base_url" != https://* && "$base_url" != git@* ]]; then
     continue
@@ -32,8 +38,15 @@ while IFS= read -r app_name; do
     git clone "$base_url" ".apps-cache/$app_name"
   else
     echo "[webui-docker] Updating $app_name"
-    git -C ".apps-cache/$app_name" fetch --all --prune || true
-    git -C ".apps-cache/$app_name" pull --ff-only || true
+    git -C ".apps-cache/$app_name" fetch --all --tags --prune || true
+    if [ -z "$pinned_ref" ]; then
+      git -C ".apps-cache/$app_name" pull --ff-only || true
+    fi
+  fi
+
+  if [ -n "$pinned_ref" ]; then
+    echo "[webui-docker] Checking out $app_name @ $pinned_ref"
+    git -C ".apps-cache/$app_name" -c advice.detachedHead=false checkout --quiet "$pinned_ref" || true
   fi
 
   if [ -f ".apps-cache/$app_name/package.json" ]; then
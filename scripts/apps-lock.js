@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+// apps.lock.json helper used by start-even.sh.
+//
+//   node scripts/apps-lock.js locked-commit <app-name>
+//     Prints the locked commit if the lock entry still matches apps.json.
+//   node scripts/apps-lock.js record <app-name> <checkout-dir>
+//     Records the checkout's HEAD commit, resolve time and integrity hash.
+//   node scripts/apps-lock.js verify <app-name> <checkout-dir>
+//     Exits non-zero if the checkout does not match its lock entry and warns
+//     about uncommitted changes in it.
+
+const fs = require('fs')
+const crypto = require('crypto')
+const { execFileSync } = require('child_process')
+
+const REGISTRY_FILE = 'apps.json'
+const LOCK_FILE = 'apps.lock.json'
+const LOCKFILE_VERSION = 1
+// npm rewrites lockfiles while installing dependencies; that is not a local change.
+const IGNORED_CHANGES = [':(exclude,glob)**/package-lock.json']
+
+function readJson(file, fallback) {
+  if (!fs.existsSync(file)) return fallback
+  return JSON.parse(fs.readFileSync(file, 'utf8'))
+}
+
+function readRegistryEntry(name) {
+  const raw = readJson(REGISTRY_FILE, {})[name]
+  const entry = typeof raw === 'string' ? { source: raw } : raw
+  if (!entry || typeof entry.source !== 'string') {
+    throw new Error(`Registry app '${name}' was not found in ${REGISTRY_FILE}.`)
+  }
+  return { source: entry.source, ref: typeof entry.ref === 'string' ? entry.ref : null }
+}
+
+function readLock() {
+  const lock = readJson(LOCK_FILE, { lockfileVersion: LOCKFILE_VERSION, apps: {} })
+  if (lock.lockfileVersion !== LOCKFILE_VERSION || typeof lock.apps !== 'object' || lock.apps === null) {
+    throw new Error(`${LOCK_FILE} has an unsupported format (expected lockfileVersion ${LOCKFILE_VERSION}).`)
+  }
+  return lock
+}
+
+function writeLock(lock) {
+  const apps = {}
+  for (const name of Object.keys(lock.apps).sort()) {
+    apps[name] = lock.apps[name]
+  }
+  fs.writeFileSync(LOCK_FILE, `${JSON.stringify({ lockfileVersion: LOCKFILE_VERSION, apps }, null, 2)}\n`)
+}
+
+function git(dir, args) {
+  return execFileSync('git', ['-C', dir, ...args], { encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 })
+}
+
+// Fingerprint of every tracked path, mode and blob at HEAD, so it is the same
+// on every machine that checks out the commit. Local changes are reported by
+// warnIfDirty instead.
+function computeIntegrity(dir) {
+  const tree = git(dir, ['ls-tree', '-r', '--full-tree', 'HEAD'])
+  return `sha256-${crypto.createHash('sha256').update(tree).digest('base64')}`
+}
+
+// Uncommitted or untracked files are not part of the locked sources; say so
+// without failing the start.
+function warnIfDirty(name, dir) {
+  const changes = git(dir, ['status', '--porcelain', '--', '.', ...IGNORED_CHANGES]).split('\n').filter(Boolean)
+  if (changes.length > 0) {
+    console.warn(
+      `${name}: ${dir} has ${changes.length} uncommitted or untracked file${changes.length === 1 ? '' : 's'} `
+      + `that ${LOCK_FILE} does not cover; see git -C ${dir} status.`,
+    )
+  }
+}
+
+// The checkout is the whole repository; `#subpath` only picks a directory in
+// it. Same rule as attachLockEntries in vite-plugins/registry.ts.
+function toRepoSource(source) {
+  return source.split('#')[0]
+}
+
+function matchingLockEntry(lock, name) {
+  const locked = lock.apps[name]
+  if (!locked) return null
+  const entry = readRegistryEntry(name)
+  return toRepoSource(locked.source) === toRepoSource(entry.source) && (locked.ref ?? null) === entry.ref ? locked : null
+}
+
+function main(argv) {
+  const [command, name, dir] = argv
+
+  switch (command) {
+    case 'locked-commit': {
+      const locked = matchingLockEntry(readLock(), name)
+      if (locked) console.log(locked.commit)
+      return 0
+    }
+    case 'record': {
+      const lock = readLock()
+      const entry = readRegistryEntry(name)
+      lock.apps[name] = {
+        source: toRepoSource(entry.source),
+        ref: entry.ref,
+        commit: git(dir, ['rev-parse', 'HEAD']).trim(),
+        resolvedAt: new Date().toISOString(),
+        integrity: computeIntegrity(dir),
+      }
+      writeLock(lock)
+      console.log(`Locked ${name} at ${lock.apps[name].commit.slice(0, 12)} in ${LOCK_FILE}`)
+      warnIfDirty(name, dir)
+      return 0
+    }
+    case 'verify': {
+      const locked = matchingLockEntry(readLock(), name)
+      if (!locked) return 0
+      const head = git(dir, ['rev-parse', 'HEAD']).trim()
+      if (head !== locked.commit) {
+        console.error(`${name}: ${dir} is at ${head.slice(0, 12)} but ${LOCK_FILE} pins ${locked.commit.slice(0, 12)}.`)
+        return 1
+      }
+      if (computeIntegrity(dir) !== locked.integrity) {
+        console.error(`${name}: integrity mismatch for ${dir} (expected ${locked.integrity}); the commit's tree differs from the locked one.`)
+        return 1
+      }
+      warnIfDirty(name, dir)
+      return 0
+    }
+    default:
+      console.error('Usage: node scripts/apps-lock.js <locked-commit|record|verify> <app-name> [checkout-dir]')
+      return 1
+  }
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2))
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error))
+  process.exitCode = 1
+}
@@ -15,7 +15,12 @@ APP_PATH="${APP_PATH:-}"
 AUDIO_DEVICE="${AUDIO_DEVICE:-}"
 SIM_OPTS="${SIM_OPTS:-}"
 WEB_ONLY_MODE=0
+MULTI_MODE=0
+BUILD_MODE=0
+PREVIEW_MODE=0
 SIM_ONLY_MODE=0
+TRUST_PLUGINS_MODE=0
+EVEN_TRUST_PLUGINS="${EVEN_TRUST_PLUGINS:-}"
 CLI_APP_NAME=""
 UPDATE_MODE=0
 UPDATE_TARGET=""
@@ -52,12 +57,24 @@ while [ "$#" -gt 0 ]; do
     --web-only)
       WEB_ONLY_MODE=1
       ;;
+    --multi)
+      MULTI_MODE=1
+      ;;
+    --build)
+      BUILD_MODE=1
+      ;;
+    --preview)
+      PREVIEW_MODE=1
+      ;;
     --sim-only)
       SIM_ONLY_MODE=1
       ;;
+    --trust-plugins)
+      TRUST_PLUGINS_MODE=1
+      ;;
     --*)
       echo "Unknown option: $1" >&2
-      echo "Usage: ./start-even.sh [app-name] [--update [app-name]] [--web-only] [--sim-only] [--reset] [--evenhub-cli <args...>]" >&2
+      echo "Usage: ./start-even.sh [app-name] [--update [app-name]] [--web-only] [--sim-only] [--multi] [--build] [--preview] [--trust-plugins] [--reset] [--evenhub-cli <args...>]" >&2
       exit 1
       ;;
     *)
@@ -65,7 +82,7 @@ while [ "$#" -gt 0 ]; do
         CLI_APP_NAME="$1"
       else
         echo "Unexpected extra argument: $1" >&2
-        echo "Usage: ./start-even.sh [app-name] [--update [app-name]] [--web-only] [--sim-only] [--reset] [--evenhub-cli <args...>]" >&2
+        echo "Usage: ./start-even.sh [app-name] [--update [app-name]] [--web-only] [--sim-only] [--multi] [--build] [--preview] [--trust-plugins] [--reset] [--evenhub-cli <args...>]" >&2
         exit 1
       fi
       ;;
@@ -87,11 +104,26 @@ if [ "${EVENHUB_MODE}" -eq 1 ] && [ "${RESET_MODE}" -eq 1 ]; then
   exit 1
 fi
 
-if [ "${DEVENV_UPDATE_MODE}" -eq 1 ] && { [ -n "${CLI_APP_NAME}" ] || [ "${UPDATE_MODE}" -eq 1 ] || [ "${WEB_ONLY_MODE}" -eq 1 ] || [ "${SIM_ONLY_MODE}" -eq 1 ] || [ "${RESET_MODE}" -eq 1 ] || [ "${EVENHUB_MODE}" -eq 1 ]; }; then
+if [ "${DEVENV_UPDATE_MODE}" -eq 1 ] && { [ -n "${CLI_APP_NAME}" ] || [ "${UPDATE_MODE}" -eq 1 ] || [ "${WEB_ONLY_MODE}" -eq 1 ] || [ "${SIM_ONLY_MODE}" -eq 1 ] || [ "${MULTI_MODE}" -eq 1 ] || [ "${BUILD_MODE}" -eq 1 ] || [ "${PREVIEW_MODE}" -eq 1 ] || [ "${RESET_MODE}" -eq 1 ] || [ "${EVENHUB_MODE}" -eq 1 ]; }; then
   echo "--devenv-update cannot be combined with other launcher modes." >&2
   exit 1
 fi
 
+if [ "${BUILD_MODE}" -eq 1 ] && [ "${PREVIEW_MODE}" -eq 1 ]; then
+  echo "Use either --build or --preview (--preview builds first)." >&2
+  exit 1
+fi
+
+if { [ "${BUILD_MODE}" -eq 1 ] || [ "${PREVIEW_MODE}" -eq 1 ]; } && { [ "${MULTI_MODE}" -eq 1 ] || [ "${SIM_ONLY_MODE}" -eq 1 ] || [ "${UPDATE_MODE}" -eq 1 ] || [ "${RESET_MODE}" -eq 1 ]; }; then
+  echo "--build/--preview cannot be combined with --multi, --sim-only, --update or --reset." >&2
+  exit 1
+fi
+
+if [ "${BUILD_MODE}" -eq 1 ] && [ "${WEB_ONLY_MODE}" -eq 1 ]; then
+  echo "--build does not start a server; drop --web-only." >&2
+  exit 1
+fi
+
 if [ "${RESET_MODE}" -eq 1 ] && [ -n "${CLI_APP_NAME}" ]; then
   echo "Do not pass an app name with --reset." >&2
   exit 1
@@ -127,10 +159,14 @@ print_cli_hints () {
 Command hints:
   ./start-even.sh                        # interactive app selection
   ./start-even.sh <app-name>             # run one app directly
-  ./start-even.sh --update               # refresh all git apps from apps.json
-  ./start-even.sh --update <name>        # refresh one git app from apps.json
+  ./start-even.sh --update               # refresh all git apps and rewrite apps.lock.json
+  ./start-even.sh --update <name>        # refresh one git app and rewrite its apps.lock.json entry
   ./start-even.sh --devenv-update        # refresh root and apps/* npm dependencies
   ./start-even.sh --reset                # remove generated caches/build outputs
+  ./start-even.sh --multi                # serve every app under /apps/<name>/ (index at /)
+  ./start-even.sh <app-name> --build     # production build into dist/<app-name>
+  ./start-even.sh <app-name> --preview   # build, then serve dist/<app-name> to the simulator
+  ./start-even.sh <app-name> --trust-plugins  # approve new/changed plugins of an external app
   ./start-even.sh --evenhub-cli --help   # evenhub-cli launcher
 
   Docker experiment:
@@ -164,6 +200,11 @@ reset_generated_files () {
     echo "Removed node_modules/"
   fi
 
+  if [ -d "dist" ]; then
+    rm -rf "dist"
+    echo "Removed dist/"
+  fi
+
   while IFS= read -r app_dir; do
     if [ -d "${app_dir}/node_modules" ]; then
       rm -rf "${app_dir}/node_modules"
@@ -216,30 +257,122 @@ refresh_devenv_dependencies () {
   done < <(find "apps" -mindepth 1 -maxdepth 1 -type d ! -name '_*' ! -name '.*' | sort)
 }
 
-get_registry_entry () {
+get_registry_field () {
   local app_name="$1"
-  APP_LOOKUP_NAME="${app_name}" node -e "
+  local field_name="$2"
+  APP_LOOKUP_NAME="${app_name}" APP_LOOKUP_FIELD="${field_name}" node -e "
     const fs = require('fs');
     const name = process.env.APP_LOOKUP_NAME;
     if (!fs.existsSync('apps.json')) process.exit(0);
     const map = JSON.parse(fs.readFileSync('apps.json', 'utf8'));
-    const value = map[name];
+    const raw = map[name];
+    // String entries are shorthand for { source: 'url-or-path[#subpath]' }.
+    const entry = typeof raw === 'string' ? { source: raw } : (raw || {});
+    const value = entry[process.env.APP_LOOKUP_FIELD];
     if (typeof value === 'string' && value.length > 0) {
       console.log(value);
     }
   " 2>/dev/null
 }
 
+get_registry_entry () {
+  get_registry_field "$1" source
+}
+
+get_registry_subpath () {
+  local app_name="$1"
+  local raw_entry
+  local subpath
+
+  subpath="$(get_registry_field "${app_name}" subpath)"
+  if [ -z "${subpath}" ]; then
+    raw_entry="$(get_registry_entry "${app_name}")"
+    if [[ "${raw_entry}" == *#* ]]; then
+      subpath="${raw_entry#*#}"
+    fi
+  fi
+
+  echo "${subpath}"
+}
+
+resolve_git_commit () {
+  local cache_dir="$1"
+  local ref="$2"
+
+  git -C "${cache_dir}" rev-parse --quiet --verify "${ref}^{commit}" 2>/dev/null \
+    || git -C "${cache_dir}" rev-parse --quiet --verify "origin/${ref}^{commit}" 2>/dev/null
+}
+
+checkout_registry_ref () {
+  local cache_dir="$1"
+  local ref="$2"
+  local target_commit
+
+  [ -n "${ref}" ] || return 0
+
+  if ! target_commit="$(resolve_git_commit "${cache_dir}" "${ref}")"; then
+    echo "Fetching ref '${ref}' in ${cache_dir}..."
+    git -C "${cache_dir}" fetch --tags origin
+    # Bare commit SHAs that no branch or tag points at need an explicit fetch.
+    git -C "${cache_dir}" fetch origin "${ref}" >/dev/null 2>&1 || true
+    if ! target_commit="$(resolve_git_commit "${cache_dir}" "${ref}")"; then
+      echo "Pinned ref '${ref}' was not found in ${cache_dir}." >&2
+      return 1
+    fi
+  fi
+
+  if [ "$(git -C "${cache_dir}" rev-parse HEAD)" = "${target_commit}" ]; then
+    return 0
+  fi
+
+  echo "Checking out pinned ref '${ref}' in ${cache_dir}..."
+  git -C "${cache_dir}" -c advice.detachedHead=false checkout --quiet "${ref}"
+}
+
 is_git_url () {
   local value="$1"
   [[ "${value}" == https://* || "${value}" == git@* ]]
 }
 
+apps_lock () {
+  # Older docker workspace volumes may not contain the lock helper yet.
+  [ -f "scripts/apps-lock.js" ] || return 0
+  node scripts/apps-lock.js "$@"
+}
+
+get_default_branch () {
+  local cache_dir="$1"
+  local remote_head
+
+  remote_head="$(git -C "${cache_dir}" symbolic-ref --quiet --short refs/remotes/origin/HEAD 2>/dev/null || true)"
+  echo "${remote_head#origin/}"
+}
+
+sync_registry_checkout () {
+  local app_name="$1"
+  local cache_dir="$2"
+  local locked_commit
+
+  locked_commit="$(apps_lock locked-commit "${app_name}")"
+  if [ -z "${locked_commit}" ]; then
+    checkout_registry_ref "${cache_dir}" "$(get_registry_field "${app_name}" ref)"
+    apps_lock record "${app_name}" "${cache_dir}"
+    return
+  fi
+
+  checkout_registry_ref "${cache_dir}" "${locked_commit}"
+  if ! apps_lock verify "${app_name}" "${cache_dir}"; then
+    echo "Run ./start-even.sh --update ${app_name} to re-resolve it and rewrite apps.lock.json." >&2
+    return 1
+  fi
+}
+
 update_cached_app () {
   local app_name="$1"
   local raw_entry
   local base_url
   local cache_dir
+  local pinned_ref
   local stash_name
   local stashed=0
 
@@ -255,16 +388,19 @@ update_cached_app () {
     return 0
   fi
 
+  pinned_ref="$(get_registry_field "${app_name}" ref)"
   cache_dir=".apps-cache/${app_name}"
   if [ ! -d "${cache_dir}/.git" ]; then
     mkdir -p ".apps-cache"
     echo "Cloning ${app_name} from ${base_url}..."
     git clone "${base_url}" "${cache_dir}"
+    checkout_registry_ref "${cache_dir}" "${pinned_ref}"
+    apps_lock record "${app_name}" "${cache_dir}"
     return 0
   fi
 
   echo "Updating ${app_name} in ${cache_dir}..."
-  git -C "${cache_dir}" fetch --all --prune
+  git -C "${cache_dir}" fetch --all --tags --prune
 
   if ! git -C "${cache_dir}" diff --quiet || ! git -C "${cache_dir}" diff --cached --quiet || [ -n "$(git -C "${cache_dir}" ls-files --others --exclude-standard)" ]; then
     stash_name="even-dev-auto-stash-${app_name}-$(date +%Y%m%d-%H%M%S)"
@@ -273,7 +409,18 @@ update_cached_app () {
     stashed=1
   fi
 
-  git -C "${cache_dir}" pull --ff-only
+  # A locked checkout sits on a detached commit; move back to the pinned ref or
+  # the default branch before pulling so the update can advance the lock.
+  checkout_registry_ref "${cache_dir}" "${pinned_ref:-$(get_default_branch "${cache_dir}")}"
+
+  # Tags and commit SHAs leave a detached HEAD; only branches can move forward.
+  if git -C "${cache_dir}" symbolic-ref --quiet HEAD >/dev/null; then
+    git -C "${cache_dir}" pull --ff-only
+  else
+    echo "${app_name} is on a detached HEAD${pinned_ref:+ (pinned to '${pinned_ref}')}; skipping pull."
+  fi
+
+  apps_lock record "${app_name}" "${cache_dir}"
 
   if [ "${stashed}" -eq 1 ]; then
     echo "Update completed for ${app_name}. Local changes are saved in git stash (${stash_name})."
@@ -320,8 +467,10 @@ resolve_app_location () {
     configured_location="$(get_registry_entry "${app_name}")"
     if [ -n "${configured_location}" ]; then
       local display_location="${configured_location}"
+      local pinned_ref
       display_location="${display_location#https://}"
-      echo ".apps-cache: ${display_location}"
+      pinned_ref="$(get_registry_field "${app_name}" ref)"
+      echo ".apps-cache: ${display_location}${pinned_ref:+ @ ${pinned_ref}}"
       return
     fi
   fi
@@ -415,14 +564,10 @@ clone_selected_registry_app_if_needed () {
   [ -f "apps.json" ] || return 0
 
   local app_url
-  app_url="$(node -e "
-    const r = JSON.parse(require('fs').readFileSync('apps.json','utf8'));
-    const v = r['${selected_app}'] || '';
-    const base = v.split('#')[0];
-    if (base.startsWith('https://') || base.startsWith('git@')) console.log(base);
-  ")"
-
-  if [ -z "${app_url}" ]; then
+  app_url="$(get_registry_entry "${selected_app}")"
+  app_url="${app_url%%#*}"
+
+  if [ -z "${app_url}" ] || ! is_git_url "${app_url}"; then
     return 0
   fi
 
@@ -431,6 +576,8 @@ clone_selected_registry_app_if_needed () {
     echo "Cloning ${selected_app} from ${app_url}..."
     git clone "${app_url}" "${cache_dir}"
   fi
+
+  sync_registry_checkout "${selected_app}" "${cache_dir}"
 }
 
 resolve_selected_app_dir () {
@@ -442,7 +589,9 @@ resolve_selected_app_dir () {
   fi
 
   if [ -d ".apps-cache/${selected_app}" ]; then
-    echo ".apps-cache/${selected_app}"
+    local subpath
+    subpath="$(get_registry_subpath "${selected_app}")"
+    echo ".apps-cache/${selected_app}${subpath:+/${subpath}}"
     return
   fi
 
@@ -472,6 +621,20 @@ prepare_selected_app_dir () {
   install_app_dependencies_if_needed "${app_dir}"
 }
 
+prepare_multi_app_dirs () {
+  local scan_root
+  local app_dir
+
+  for scan_root in "apps" ".apps-cache"; do
+    [ -d "${scan_root}" ] || continue
+
+    while IFS= read -r app_dir; do
+      is_standalone_app_dir "${app_dir}" || continue
+      install_app_dependencies_if_needed "${app_dir}"
+    done < <(find "${scan_root}" -mindepth 1 -maxdepth 1 -type d ! -name '_*' ! -name '.*' | sort)
+  done
+}
+
 sync_app_vite_plugin_links () {
   local root_plugins_dir="vite-plugins"
   local scan_root=""
@@ -657,6 +820,10 @@ if [ -n "${APP_PATH}" ]; then
   echo "Selected app: ${SELECTED_APP} (from APP_PATH=${APP_PATH})"
   ensure_standalone_app_dir "${RESOLVED_APP_PATH}" "${SELECTED_APP}" "Selected"
   install_app_dependencies_if_needed "${RESOLVED_APP_PATH}"
+elif [ "${MULTI_MODE}" -eq 1 ] && [ -z "${APP_NAME}" ]; then
+  RESOLVED_APP_PATH=""
+  SELECTED_APP=""
+  echo "Multi-app mode: serving every app under /apps/<name>/ (index at ${URL}/)"
 else
   RESOLVED_APP_PATH=""
   SELECTED_APP="$(resolve_app_selection)"
@@ -667,9 +834,38 @@ else
   prepare_selected_app_dir "${APP_DIR}" "${SELECTED_APP}"
 fi
 
+if [ "${MULTI_MODE}" -eq 1 ]; then
+  prepare_multi_app_dirs
+fi
+
 sync_app_vite_plugin_links
 
-VITE_APP_NAME="${SELECTED_APP}" APP_NAME="${SELECTED_APP}" APP_PATH="${RESOLVED_APP_PATH}" npx vite --host "${VITE_HOST}" --port "${PORT}" &
+# External app plugins only run once approved (see vite-plugins/plugin-trust.ts).
+if [ "${TRUST_PLUGINS_MODE}" -eq 1 ]; then
+  if [ -n "${SELECTED_APP}" ] && [ "${MULTI_MODE}" -eq 0 ]; then
+    EVEN_TRUST_PLUGINS="${SELECTED_APP}"
+  else
+    EVEN_TRUST_PLUGINS="all"
+  fi
+fi
+
+if [ "${BUILD_MODE}" -eq 1 ] || [ "${PREVIEW_MODE}" -eq 1 ]; then
+  echo "Building ${SELECTED_APP} into dist/${SELECTED_APP}..."
+  EVEN_TRUST_PLUGINS="${EVEN_TRUST_PLUGINS}" VITE_APP_NAME="${SELECTED_APP}" APP_NAME="${SELECTED_APP}" APP_PATH="${RESOLVED_APP_PATH}" npx vite build
+
+  if [ "${BUILD_MODE}" -eq 1 ]; then
+    echo "Build complete: dist/${SELECTED_APP}"
+    exit 0
+  fi
+fi
+
+VITE_ARGS=(--host "${VITE_HOST}" --port "${PORT}")
+if [ "${PREVIEW_MODE}" -eq 1 ]; then
+  echo "Serving the production build of ${SELECTED_APP}..."
+  VITE_ARGS=(preview --strictPort "${VITE_ARGS[@]}")
+fi
+
+EVEN_TRUST_PLUGINS="${EVEN_TRUST_PLUGINS}" MULTI_APP="${MULTI_MODE}" VITE_APP_NAME="${SELECTED_APP}" APP_NAME="${SELECTED_APP}" APP_PATH="${RESOLVED_APP_PATH}" npx vite "${VITE_ARGS[@]}" &
 
 VITE_PID=$!
 
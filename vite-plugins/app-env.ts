@@ -0,0 +1,101 @@
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { loadEnv } from 'vite'
+import type { UserConfig } from 'vite'
+
+const SECRET_KEY_PATTERN = /KEY|SECRET|TOKEN|PASSWORD|PASSWD|AUTH|PRIVATE|CREDENTIAL/i
+// apps.json env values currently in process.env, by key. Shared across config
+// reloads so switching apps can take the previous app's values out again.
+const INJECTED_ENV_KEY = Symbol.for('even-dev.app-env')
+
+export type AppEnvOptions = {
+  appName: string
+  appDir: string
+  mode: string
+  registryEnv: Record<string, string>
+  envPrefix?: string | string[]
+}
+
+function getInjectedEnv(): Map<string, string> {
+  const globals = globalThis as typeof globalThis & { [INJECTED_ENV_KEY]?: Map<string, string> }
+  let injected = globals[INJECTED_ENV_KEY]
+  if (!injected) {
+    injected = new Map()
+    globals[INJECTED_ENV_KEY] = injected
+  }
+  return injected
+}
+
+function listEnvFiles(appDir: string, mode: string): string[] {
+  return ['.env', '.env.local', `.env.${mode}`, `.env.${mode}.local`]
+    .filter((file) => existsSync(resolve(appDir, file)))
+}
+
+function maskValue(key: string, value: string): string {
+  if (!SECRET_KEY_PATTERN.test(key)) {
+    return value
+  }
+  return value.length > 8 ? `${value.slice(0, 4)}…(${value.length} chars)` : '****'
+}
+
+/**
+ * Removes the apps.json env values the previous `prepareAppEnv` added to
+ * process.env (values changed since then are left alone), so they do not leak
+ * into the next app after a switch.
+ */
+export function resetAppEnv(): void {
+  const injected = getInjectedEnv()
+  for (const [key, value] of injected) {
+    if (process.env[key] === value) {
+      delete process.env[key]
+    }
+  }
+  injected.clear()
+}
+
+/**
+ * Points Vite's env loading at the selected app so its `.env`,
+ * `.env.local` and `.env.<mode>` files apply with the usual prefix filtering,
+ * just like `npm run dev` inside the app. apps.json `env` values are added to
+ * process.env (shell values win), which also hands them to the app server;
+ * the previous app's values are removed first (see resetAppEnv).
+ */
+export function prepareAppEnv(options: AppEnvOptions): Pick<UserConfig, 'envDir'> {
+  const { appName, appDir, mode, registryEnv } = options
+  const envPrefix = options.envPrefix ?? 'VITE_'
+  resetAppEnv()
+  const shellKeys = new Set(Object.keys(process.env))
+
+  const injected = getInjectedEnv()
+  const registryKeys = new Set<string>()
+  for (const [key, value] of Object.entries(registryEnv)) {
+    if (process.env[key] === undefined) {
+      process.env[key] = value
+      injected.set(key, value)
+      registryKeys.add(key)
+    }
+  }
+
+  const envFiles = listEnvFiles(appDir, mode)
+  const loaded = loadEnv(mode, appDir, envPrefix)
+  const rows = Object.entries(loaded)
+    .filter(([key]) => registryKeys.has(key) || !shellKeys.has(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `  ${key}=${maskValue(key, value)} (${registryKeys.has(key) ? 'apps.json' : 'env file'})`)
+
+  const serverOnly = [...registryKeys].filter((key) => !(key in loaded)).sort()
+  if (envFiles.length > 0 || rows.length > 0 || serverOnly.length > 0) {
+    console.log(
+      `[app-env] ${appName}: ${envFiles.length ? `loaded ${envFiles.join(', ')}` : 'no env files'}`
+      + `, ${rows.length} client variable${rows.length === 1 ? '' : 's'}`,
+    )
+    for (const row of rows) {
+      console.log(row)
+    }
+    if (serverOnly.length > 0) {
+      console.log(`  server only (no ${[envPrefix].flat().join('/')} prefix): ${serverOnly.join(', ')}`)
+    }
+  }
+
+  return { envDir: appDir }
+}
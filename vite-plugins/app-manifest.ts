@@ -0,0 +1,263 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import type { Plugin, ViteDevServer } from 'vite'
+import type { AppManifest, PluginContext } from './types'
+
+export const APP_MANIFEST_FILE = 'app.json'
+
+// Mirrors the schema `evenhub-cli pack` validates against, so anything
+// reported here would also stop the pack.
+const PACKAGE_ID_PATTERN = /^[a-z][a-z0-9]*(\.[a-z][a-z0-9]*)+$/
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/
+const EDITIONS = ['202601']
+const PERMISSION_NAMES = ['network', 'g2-microphone', 'phone-microphone', 'album', 'location', 'camera']
+const LANGUAGES = ['en', 'de', 'fr', 'es', 'it', 'zh', 'ja', 'ko']
+
+export type AppManifestResult = {
+  file: string
+  manifest: AppManifest | null
+  issues: string[]
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0)
+}
+
+function checkMaxLength(manifest: AppManifest, key: string, max: number, required: boolean, issues: string[]): void {
+  const value = manifest[key]
+  if (value === undefined) {
+    if (required) issues.push(`"${key}" is required`)
+    return
+  }
+  if (typeof value !== 'string' || value.length === 0 || value.length > max) {
+    issues.push(`"${key}" must be a non-empty string of at most ${max} characters`)
+  }
+}
+
+function checkVersion(manifest: AppManifest, key: string, required: boolean, issues: string[]): void {
+  const value = manifest[key]
+  if (value === undefined) {
+    if (required) issues.push(`"${key}" is required`)
+    return
+  }
+  if (typeof value !== 'string' || !VERSION_PATTERN.test(value)) {
+    issues.push(`"${key}" must be in x.y.z format (got ${JSON.stringify(value)})`)
+  }
+}
+
+// evenhub-cli only packs the `[{ name, desc, whitelist? }]` list. The older
+// `{ network: [...hosts], fs: [...paths] }` object is still read for the
+// network sandbox, but reported so it gets migrated before packing.
+function checkPermissions(permissions: unknown, issues: string[]): void {
+  if (permissions === undefined) {
+    issues.push('"permissions" is required (use [] when the app needs none)')
+    return
+  }
+
+  if (isPlainObject(permissions)) {
+    issues.push(
+      '"permissions" uses the { network, fs } object form, which evenhub-cli does not pack; '
+      + 'use [{ "name": "network", "desc": "...", "whitelist": [...] }] instead',
+    )
+    return
+  }
+  if (!Array.isArray(permissions)) {
+    issues.push('"permissions" must be an array of { name, desc } objects')
+    return
+  }
+
+  permissions.forEach((permission, index) => {
+    const label = `permissions[${index}]`
+    if (!isPlainObject(permission)) {
+      issues.push(`${label} must be an object with "name" and "desc"`)
+      return
+    }
+    if (typeof permission.name !== 'string' || !PERMISSION_NAMES.includes(permission.name)) {
+      issues.push(`${label}.name must be one of ${PERMISSION_NAMES.join(', ')}`)
+    }
+    if (typeof permission.desc !== 'string' || permission.desc.length === 0 || permission.desc.length > 300) {
+      issues.push(`${label}.desc must be a non-empty string of at most 300 characters`)
+    }
+    if (permission.whitelist !== undefined && (permission.name !== 'network' || !isStringArray(permission.whitelist))) {
+      issues.push(`${label}.whitelist is only allowed for "network" and must be an array of strings`)
+    }
+  })
+}
+
+function validateManifest(manifest: AppManifest, appDir: string): string[] {
+  const issues: string[] = []
+
+  if (manifest.package_id === undefined) {
+    issues.push('"package_id" is required')
+  } else if (typeof manifest.package_id !== 'string' || !PACKAGE_ID_PATTERN.test(manifest.package_id)) {
+    issues.push(
+      `"package_id" ${JSON.stringify(manifest.package_id)} must be a lowercase dot-separated name `
+      + 'with two or more segments, each starting with a letter (e.g. com.example.myapp)',
+    )
+  }
+
+  if (manifest.edition === undefined) {
+    issues.push('"edition" is required')
+  } else if (typeof manifest.edition !== 'string' || !EDITIONS.includes(manifest.edition)) {
+    issues.push(`"edition" must be one of ${EDITIONS.join(', ')} (got ${JSON.stringify(manifest.edition)})`)
+  }
+
+  checkMaxLength(manifest, 'name', 20, true, issues)
+  checkMaxLength(manifest, 'tagline', 50, false, issues)
+  checkMaxLength(manifest, 'description', 1024, false, issues)
+  checkVersion(manifest, 'version', true, issues)
+  checkVersion(manifest, 'min_app_version', false, issues)
+
+  if (manifest.min_sdk_version === undefined) {
+    issues.push('"min_sdk_version" is required')
+  } else if (typeof manifest.min_sdk_version !== 'string' || manifest.min_sdk_version.length === 0) {
+    issues.push('"min_sdk_version" must be a version string such as "0.0.7"')
+  }
+
+  if (manifest.entrypoint === undefined) {
+    issues.push('"entrypoint" is required')
+  } else if (typeof manifest.entrypoint !== 'string' || manifest.entrypoint.length === 0) {
+    issues.push('"entrypoint" must be a file path such as "index.html"')
+  } else if (!existsSync(resolve(appDir, manifest.entrypoint))) {
+    issues.push(`"entrypoint" ${manifest.entrypoint} does not exist in the app directory`)
+  }
+
+  checkPermissions(manifest.permissions, issues)
+
+  const languages = manifest.supported_languages
+  if (languages === undefined) {
+    issues.push('"supported_languages" is required (e.g. ["en"])')
+  } else if (!isStringArray(languages) || languages.some((code) => !LANGUAGES.includes(code.toLowerCase()))) {
+    issues.push(`"supported_languages" must only contain ${LANGUAGES.join(', ')}`)
+  }
+
+  return issues
+}
+
+/**
+ * Reads and validates `<appDir>/app.json`. Returns `null` when the app has no
+ * manifest; a manifest that is not valid JSON is reported as an issue.
+ */
+export function readAppManifest(appDir: string): AppManifestResult | null {
+  const file = resolve(appDir, APP_MANIFEST_FILE)
+  if (!existsSync(file)) {
+    return null
+  }
+
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(readFileSync(file, 'utf8'))
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    return { file, manifest: null, issues: [`not valid JSON: ${reason}`] }
+  }
+
+  if (!isPlainObject(manifest)) {
+    return { file, manifest: null, issues: ['must contain a JSON object'] }
+  }
+  return { file, manifest, issues: validateManifest(manifest, appDir) }
+}
+
+/**
+ * Network hosts the manifest declares, from either permissions shape. Returns
+ * `null` when the manifest has no network permission at all.
+ */
+export function readNetworkPermissions(manifest: AppManifest): string[] | null {
+  const { permissions } = manifest
+  if (Array.isArray(permissions)) {
+    const network = permissions.find((permission) => isPlainObject(permission) && permission.name === 'network')
+    if (!network) return null
+    return isStringArray(network.whitelist) ? network.whitelist : []
+  }
+  if (isPlainObject(permissions) && permissions.network !== undefined) {
+    return isStringArray(permissions.network) ? permissions.network : []
+  }
+  return null
+}
+
+function formatIssues(appName: string, result: AppManifestResult): string {
+  return `${appName}/${APP_MANIFEST_FILE} has ${result.issues.length} problem${result.issues.length === 1 ? '' : 's'}:\n`
+    + result.issues.map((issue) => `  - ${issue}`).join('\n')
+}
+
+/**
+ * Validates the selected app's app.json when the server starts and whenever
+ * it changes, so packing problems show up in the terminal and the Vite error
+ * overlay long before `evenhub-cli pack`. Production builds fail on errors.
+ */
+export default function appManifest(ctx: PluginContext): Plugin | null {
+  if (!ctx.selectedAppDir) {
+    return null
+  }
+
+  const appDir = ctx.selectedAppDir
+  const manifestFile = resolve(appDir, APP_MANIFEST_FILE)
+  let lastMessage: string | null = null
+  let isBuild = false
+
+  const report = (server: ViteDevServer): void => {
+    const result = readAppManifest(appDir)
+    const message = result && result.issues.length > 0 ? formatIssues(ctx.selectedApp, result) : null
+
+    if (message) {
+      console.warn(`[app-manifest] ${message}`)
+      server.ws.send({
+        type: 'error',
+        err: { message, stack: '', plugin: 'app-manifest', id: manifestFile },
+      })
+    } else if (lastMessage) {
+      console.log(`[app-manifest] ${ctx.selectedApp}/${APP_MANIFEST_FILE} is valid again`)
+      // A full reload clears the overlay in connected clients.
+      server.ws.send({ type: 'full-reload', path: '*' })
+    }
+    lastMessage = message
+  }
+
+  return {
+    name: 'app-manifest',
+    configResolved(config) {
+      isBuild = config.command === 'build'
+    },
+    buildStart() {
+      // The dev server reports through the overlay instead (configureServer).
+      if (!isBuild) return
+      const result = readAppManifest(appDir)
+      if (result && result.issues.length > 0) {
+        this.error(formatIssues(ctx.selectedApp, result))
+      }
+    },
+    configureServer(server) {
+      report(server)
+      server.watcher.add(manifestFile)
+
+      const onFileEvent = (file: string): void => {
+        if (resolve(file) === manifestFile) {
+          report(server)
+        }
+      }
+      server.watcher.on('add', onFileEvent)
+      server.watcher.on('change', onFileEvent)
+      server.watcher.on('unlink', onFileEvent)
+
+      // Clients that connect later (e.g. the simulator) still get the overlay.
+      server.ws.on('connection', () => {
+        if (lastMessage) {
+          server.ws.send({
+            type: 'error',
+            err: { message: lastMessage, stack: '', plugin: 'app-manifest', id: manifestFile },
+          })
+        }
+      })
+    },
+    configurePreviewServer() {
+      const result = readAppManifest(appDir)
+      if (result && result.issues.length > 0) {
+        console.warn(`[app-manifest] ${formatIssues(ctx.selectedApp, result)}`)
+      }
+    },
+  }
+}
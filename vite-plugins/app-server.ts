@@ -1,29 +1,746 @@
-import { existsSync } from 'node:fs'
-import { resolve } from 'node:path'
 import { spawn } from 'node:child_process'
-import type { Plugin } from 'vite'
-import type { PluginContext } from './types'
+import type { ChildProcess } from 'node:child_process'
+import { existsSync } from 'node:fs'
+import { createServer } from 'node:net'
+import type { AddressInfo } from 'node:net'
+import { relative, resolve, sep } from 'node:path'
+import { createInterface } from 'node:readline'
+import type { Readable } from 'node:stream'
+import type { Plugin, ProxyOptions } from 'vite'
+import { UNTRUSTED_PLUGIN_CODE, verifyCommandTrust } from './plugin-trust'
+import type { AppManifest, PluginContext } from './types'
 
-export default function appServer(ctx: PluginContext): Plugin | null {
-  const selectedApp = process.env.VITE_APP_NAME ?? process.env.APP_NAME ?? ''
-  const appDir = ctx.externalApps[selectedApp]
-  if (!appDir) return null
+const RESTART_DEBOUNCE_MS = 300
+// A process that ran this long before crashing resets the backoff.
+const STABLE_UPTIME_MS = 10_000
+const MAX_BACKOFF_MS = 30_000
+const MAX_QUICK_CRASHES = 5
+const READY_POLL_MS = 500
+const READY_TIMEOUT_MS = 60_000
+const STOP_TIMEOUT_MS = 5_000
+// Not the lockfile: npm install rewrites it, which would restart the server again.
+const PACKAGE_FILE = 'package.json'
+const IS_WINDOWS = process.platform === 'win32'
+const DEFAULT_ROUTE = '/__app_server'
+const DEFAULT_SERVER_NAME = 'server'
+const DEFAULT_SERVER_COMMAND = 'npx tsx src/index.ts'
+const PROCESS_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+// Survives config reloads, which evaluate this module again.
+const EXIT_STATE_KEY = Symbol.for('even-dev.app-server')
+
+type ProcessStatus = 'installing' | 'starting' | 'running' | 'ready' | 'exited' | 'crashed' | 'failed' | 'stopped'
+
+type BackendProcess = {
+  name: string
+  // Shell command line.
+  command: string
+  // Absolute working directory.
+  cwd: string
+  env: Record<string, string>
+  // Output line that marks the process as ready.
+  readyPattern: RegExp | null
+  // Absolute URL, or a path on the process's own port.
+  healthUrl: string | null
+  // Port passed as PORT; null picks a free one.
+  port: number | null
+  // Same-origin route prefix reverse-proxied (HTTP and WebSocket) to the port.
+  route: string
+  // Absolute files and directories whose changes restart the process.
+  watch: string[]
+}
+
+type Supervisor = {
+  process: BackendProcess
+  port: number
+  status: () => ProcessStatus
+  // Resolves once the first start is ready, running or has failed.
+  settled: Promise<void>
+  start: () => void
+  handleFileEvent: (file: string) => void
+  close: () => void
+  kill: () => void
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
 
-  const serverDir = resolve(appDir, 'server')
-  if (!existsSync(resolve(serverDir, 'package.json'))) return null
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
 
+function displayPath(path: string, base: string): string {
+  const rel = relative(base, path)
+  return rel === '' ? '.' : rel.startsWith('..') ? path : rel
+}
+
+// app.json values, overridden key by key by the apps.json `pluginOptions` ones.
+function mergeOptions(fromManifest: unknown, fromRegistry: unknown): Record<string, unknown> {
   return {
-    name: 'app-server',
-    configureServer() {
-      console.log(`[app-server] Starting ${selectedApp} server from ${serverDir}`)
-      const child = spawn('npx', ['tsx', 'src/index.ts'], {
-        cwd: serverDir,
-        stdio: 'inherit',
+    ...(isPlainObject(fromManifest) ? fromManifest : {}),
+    ...(isPlainObject(fromRegistry) ? fromRegistry : {}),
+  }
+}
+
+type ProcessDefaults = {
+  command: string | null
+  cwd: string
+  route: string
+  watch: string[]
+}
+
+// Invalid optional fields are reported and replaced by their defaults; a
+// process without a command or with a missing cwd is skipped.
+function parseProcess(
+  name: string,
+  options: Record<string, unknown>,
+  defaults: ProcessDefaults,
+  appDir: string,
+  warn: (message: string) => void,
+): BackendProcess | null {
+  const command = options.command === undefined ? defaults.command : options.command
+  if (!isNonEmptyString(command)) {
+    warn(`"${name}" needs a "command"; not started`)
+    return null
+  }
+
+  let cwd = resolve(appDir, defaults.cwd)
+  if (isNonEmptyString(options.cwd)) {
+    cwd = resolve(appDir, options.cwd)
+  } else if (options.cwd !== undefined) {
+    warn(`"${name}".cwd must be a directory relative to the app; using ${defaults.cwd}`)
+  }
+  if (!existsSync(cwd)) {
+    warn(`"${name}": ${cwd} does not exist; not started`)
+    return null
+  }
+
+  const env: Record<string, string> = {}
+  if (
+    isPlainObject(options.env)
+    && Object.entries(options.env).every(([key, value]) => ENV_KEY_PATTERN.test(key) && typeof value === 'string')
+  ) {
+    Object.assign(env, options.env)
+  } else if (options.env !== undefined) {
+    warn(`"${name}".env must map env var names to strings; ignored`)
+  }
+
+  let readyPattern: RegExp | null = null
+  if (isNonEmptyString(options.readyPattern)) {
+    try {
+      readyPattern = new RegExp(options.readyPattern)
+    } catch (error) {
+      warn(`"${name}".readyPattern is not a valid regular expression (${error instanceof Error ? error.message : String(error)}); ignored`)
+    }
+  } else if (options.readyPattern !== undefined) {
+    warn(`"${name}".readyPattern must be a regular expression string; ignored`)
+  }
+
+  let port: number | null = null
+  if (typeof options.port === 'number' && Number.isInteger(options.port) && options.port > 0 && options.port < 65536) {
+    port = options.port
+  } else if (options.port !== undefined) {
+    warn(`"${name}".port must be a port number; picking a free port`)
+  }
+
+  let route = defaults.route
+  if (typeof options.route === 'string' && /^\/[^?#]*[^/?#]$/.test(options.route)) {
+    route = options.route
+  } else if (options.route !== undefined) {
+    warn(`"${name}".route must be a path like "/api" without a trailing slash; using ${defaults.route}`)
+  }
+
+  let watch = defaults.watch
+  if (Array.isArray(options.watch) && options.watch.every(isNonEmptyString)) {
+    watch = options.watch
+  } else if (options.watch !== undefined) {
+    warn(`"${name}".watch must be an array of paths relative to its cwd; ignored`)
+  }
+
+  return {
+    name,
+    command,
+    cwd,
+    env,
+    readyPattern,
+    healthUrl: typeof options.healthUrl === 'string' ? options.healthUrl : null,
+    port,
+    route,
+    watch: watch.map((path) => resolve(cwd, path)),
+  }
+}
+
+/**
+ * The implicit `server` process (app.json `appServer`; started when
+ * `server/package.json` exists or a command is set) followed by the named
+ * processes in app.json `appServers`. apps.json `pluginOptions.appServer` and
+ * `pluginOptions.appServers.<name>` override the app.json values.
+ */
+function readBackendProcesses(ctx: PluginContext, manifest: AppManifest | null, appDir: string): BackendProcess[] {
+  const warn = (message: string): void => console.warn(`[app-server] ${ctx.selectedApp}: ${message}`)
+  const processes: BackendProcess[] = []
+
+  const serverOptions = mergeOptions(manifest?.appServer, ctx.pluginOptions.appServer)
+  if (process.env.APP_SERVER_HEALTH_URL) {
+    serverOptions.healthUrl = process.env.APP_SERVER_HEALTH_URL
+  }
+  const serverCwd = isNonEmptyString(serverOptions.cwd) ? serverOptions.cwd : DEFAULT_SERVER_NAME
+  if (serverOptions.command !== undefined || existsSync(resolve(appDir, serverCwd, PACKAGE_FILE))) {
+    const server = parseProcess(
+      DEFAULT_SERVER_NAME,
+      serverOptions,
+      { command: DEFAULT_SERVER_COMMAND, cwd: DEFAULT_SERVER_NAME, route: DEFAULT_ROUTE, watch: ['src'] },
+      appDir,
+      warn,
+    )
+    if (server) processes.push(server)
+  }
+
+  const fromManifest = isPlainObject(manifest?.appServers) ? manifest.appServers : {}
+  const fromRegistry = isPlainObject(ctx.pluginOptions.appServers) ? ctx.pluginOptions.appServers : {}
+  for (const name of new Set([...Object.keys(fromManifest), ...Object.keys(fromRegistry)])) {
+    if (!PROCESS_NAME_PATTERN.test(name) || name === DEFAULT_SERVER_NAME) {
+      warn(`appServers."${name}": names may only contain letters, digits, ".", "_" and "-", and "${DEFAULT_SERVER_NAME}" is taken by appServer`)
+      continue
+    }
+    const backend = parseProcess(
+      name,
+      mergeOptions(fromManifest[name], fromRegistry[name]),
+      { command: null, cwd: '.', route: `${DEFAULT_ROUTE}/${name}`, watch: [] },
+      appDir,
+      warn,
+    )
+    if (backend) processes.push(backend)
+  }
+  return processes
+}
+
+// The app.json process options as approval entries, one per process. Options
+// besides `command` (cwd, env) change what runs too, so whole entries count.
+function describeManifestProcesses(manifest: AppManifest | null): Record<string, string> {
+  const entries: Record<string, string> = {}
+  if (manifest?.appServer !== undefined) {
+    entries.appServer = JSON.stringify(manifest.appServer, null, 2)
+  }
+  if (isPlainObject(manifest?.appServers)) {
+    for (const [name, options] of Object.entries(manifest.appServers)) {
+      entries[`appServers.${name}`] = JSON.stringify(options, null, 2)
+    }
+  }
+  return entries
+}
+
+// Processes declared by a cloned registry app need approval like its plugins;
+// without it only apps.json `pluginOptions` and the defaults are used.
+async function readTrustedManifest(ctx: PluginContext): Promise<AppManifest | null> {
+  try {
+    await verifyCommandTrust('app.json#appServers', describeManifestProcesses(ctx.manifest), ctx)
+    return ctx.manifest
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException | null)?.code !== UNTRUSTED_PLUGIN_CODE) throw error
+    console.warn(`[plugin-trust] ${error instanceof Error ? error.message : String(error)}; ignoring its app.json appServer and appServers`)
+    return null
+  }
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolvePort, reject) => {
+    const probe = createServer()
+    probe.once('error', reject)
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo
+      probe.close(() => resolvePort(port))
+    })
+  })
+}
+
+// Free ports are probed one at a time, so the same one can come back twice.
+async function assignPorts(processes: BackendProcess[]): Promise<number[]> {
+  const taken = new Set(processes.map((backend) => backend.port))
+  const ports: number[] = []
+  for (const backend of processes) {
+    let port = backend.port
+    while (port === null) {
+      const candidate = await findFreePort()
+      if (!taken.has(candidate)) port = candidate
+    }
+    taken.add(port)
+    ports.push(port)
+  }
+  return ports
+}
+
+function toPortEnvKey(name: string): string {
+  return `APP_SERVER_PORT_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function pipeWithPrefix(
+  stream: Readable | null,
+  prefix: string,
+  write: (line: string) => void,
+  onLine?: (line: string) => void,
+): void {
+  if (!stream) return
+  createInterface({ input: stream }).on('line', (line) => {
+    if (line.trim()) write(`${prefix} ${line}`)
+    onLine?.(line)
+  })
+}
+
+// Own process group on POSIX, so the shell and everything it starts can be
+// stopped together.
+function spawnPrefixed(
+  command: string,
+  cwd: string,
+  prefix: string,
+  env: NodeJS.ProcessEnv = process.env,
+  onLine?: (line: string) => void,
+): ChildProcess {
+  const child = spawn(command, {
+    cwd,
+    env,
+    stdio: ['ignore', 'pipe', 'pipe'],
+    detached: !IS_WINDOWS,
+    shell: true,
+  })
+  pipeWithPrefix(child.stdout, prefix, console.log, onLine)
+  pipeWithPrefix(child.stderr, prefix, console.error, onLine)
+  return child
+}
+
+function waitForExit(child: ChildProcess): Promise<number | null> {
+  return new Promise((resolveExit) => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      resolveExit(child.exitCode)
+      return
+    }
+    child.once('error', () => resolveExit(null))
+    child.once('exit', (code) => resolveExit(code))
+  })
+}
+
+function killTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (!IS_WINDOWS && child.pid) {
+      process.kill(-child.pid, signal)
+    } else {
+      child.kill(signal)
+    }
+  } catch {
+    // Already gone.
+  }
+}
+
+async function isHealthy(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(2_000) })
+    await response.body?.cancel()
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+// Same check as start-even.sh: missing node_modules or a failing `npm ls`.
+async function installDependencies(cwd: string, prefix: string): Promise<boolean> {
+  const hasModules = existsSync(resolve(cwd, 'node_modules'))
+  if (hasModules) {
+    const check = spawn('npm ls --depth=0', { cwd, stdio: 'ignore', shell: true })
+    if (await waitForExit(check) === 0) return true
+  }
+
+  console.log(
+    hasModules
+      ? `[app-server] Refreshing dependencies for ${cwd} (existing node_modules is stale or incomplete)...`
+      : `[app-server] Installing dependencies for ${cwd}...`,
+  )
+  const code = await waitForExit(spawnPrefixed('npm install', cwd, prefix))
+  if (code !== 0) {
+    console.error(`[app-server] npm install failed in ${cwd} (exit code ${code}); fix it and save its package.json to retry`)
+    return false
+  }
+  return true
+}
+
+/**
+ * Runs one backend process: prefixes its output with `[<app>-<name>]`,
+ * restarts it when its watched paths or package.json change, restarts crashes
+ * with exponential backoff (and stops after repeated quick crashes until the
+ * next change), waits for its ready pattern and health URL before reporting it
+ * ready, and stops its whole process tree on close.
+ */
+function createSupervisor(
+  appName: string,
+  backend: BackendProcess,
+  port: number,
+  sharedEnv: Record<string, string>,
+  ensureDependencies: (cwd: string, prefix: string) => Promise<boolean>,
+  invalidateDependencies: (cwd: string) => void,
+): Supervisor {
+  const label = `${appName} ${backend.name}`
+  const prefix = `[${appName}-${backend.name}]`
+  const packageFile = resolve(backend.cwd, PACKAGE_FILE)
+  const hasPackage = existsSync(packageFile)
+  const healthUrl = backend.healthUrl?.startsWith('/') ? `http://127.0.0.1:${port}${backend.healthUrl}` : backend.healthUrl
+  const env = { ...process.env, ...sharedEnv, ...backend.env, PORT: String(port) }
+  const watchedLabel = backend.watch.map((path) => displayPath(path, process.cwd())).join(', ')
+
+  let child: ChildProcess | null = null
+  let status: ProcessStatus = 'starting'
+  let startedAt = 0
+  let quickCrashes = 0
+  let closed = false
+  let restartTimer: NodeJS.Timeout | null = null
+  let backoffTimer: NodeJS.Timeout | null = null
+  // Serializes install/start/stop so overlapping changes cannot race.
+  let queue: Promise<void> = Promise.resolve()
+
+  let markSettled = (): void => {}
+  const settled = new Promise<void>((resolveSettled) => {
+    markSettled = resolveSettled
+  })
+  const setStatus = (next: ProcessStatus): void => {
+    status = next
+    if (next !== 'installing' && next !== 'starting') markSettled()
+  }
+
+  const enqueue = (task: () => Promise<void>): void => {
+    queue = queue.then(task).catch((error) => {
+      console.error(`[app-server] ${label}: ${error instanceof Error ? error.message : String(error)}`)
+    })
+  }
+
+  const waitUntilReady = async (running: ChildProcess, isMatched: () => boolean): Promise<void> => {
+    const deadline = Date.now() + READY_TIMEOUT_MS
+    while (child === running && Date.now() < deadline) {
+      if ((!backend.readyPattern || isMatched()) && (!healthUrl || await isHealthy(healthUrl))) {
+        if (child === running) {
+          const checks = [backend.readyPattern ? `output matched ${backend.readyPattern}` : '', healthUrl ?? '']
+          console.log(`[app-server] ${label} is ready (${checks.filter(Boolean).join(', ')} after ${((Date.now() - startedAt) / 1000).toFixed(1)}s)`)
+          setStatus('ready')
+        }
+        return
+      }
+      await new Promise((resolveDelay) => setTimeout(resolveDelay, READY_POLL_MS))
+    }
+    if (child === running) {
+      const checks = [backend.readyPattern ? `print ${backend.readyPattern}` : '', healthUrl ? `answer ${healthUrl}` : '']
+      console.warn(`[app-server] ${label} did not ${checks.filter(Boolean).join(' or ')} within ${READY_TIMEOUT_MS / 1000}s; still running`)
+      setStatus('running')
+    }
+  }
+
+  const nextChangeHint = (): string =>
+    watchedLabel ? `the next change in ${watchedLabel}` : 'the next dev server restart'
+
+  const scheduleCrashRestart = (code: number | null, signal: NodeJS.Signals | null): void => {
+    quickCrashes = Date.now() - startedAt < STABLE_UPTIME_MS ? quickCrashes + 1 : 1
+    const reason = signal ? `signal ${signal}` : `exit code ${code}`
+    if (quickCrashes > MAX_QUICK_CRASHES) {
+      console.error(`[app-server] ${label} crashed ${quickCrashes - 1} times in a row (${reason}); waiting for ${nextChangeHint()} before restarting`)
+      setStatus('failed')
+      return
+    }
+    const delay = Math.min(1_000 * 2 ** (quickCrashes - 1), MAX_BACKOFF_MS)
+    console.error(`[app-server] ${label} crashed (${reason}); restarting in ${delay / 1000}s`)
+    setStatus('crashed')
+    backoffTimer = setTimeout(() => {
+      backoffTimer = null
+      enqueue(start)
+    }, delay)
+  }
+
+  const start = async (): Promise<void> => {
+    if (closed || child) return
+    if (hasPackage) {
+      setStatus('installing')
+      if (!await ensureDependencies(backend.cwd, prefix)) {
+        setStatus('failed')
+        return
+      }
+    }
+
+    startedAt = Date.now()
+    setStatus('starting')
+    console.log(`[app-server] Starting ${label} in ${backend.cwd}: ${backend.command} (PORT=${port}, proxied at ${backend.route}/)`)
+    let matched = false
+    const started = spawnPrefixed(backend.command, backend.cwd, prefix, env, (line) => {
+      if (!matched && backend.readyPattern?.test(line)) matched = true
+    })
+    child = started
+    started.on('error', (error) => {
+      console.error(`[app-server] Failed to start ${label}: ${error.message}`)
+    })
+    started.on('exit', (code, signal) => {
+      if (child !== started) return
+      child = null
+      if (closed) return
+      if (code === 0) {
+        console.log(`[app-server] ${label} exited; it restarts on ${nextChangeHint()}`)
+        setStatus('exited')
+        return
+      }
+      scheduleCrashRestart(code, signal)
+    })
+
+    if (backend.readyPattern || healthUrl) {
+      void waitUntilReady(started, () => matched)
+    } else {
+      setStatus('running')
+    }
+  }
+
+  const stop = async (): Promise<void> => {
+    if (backoffTimer) {
+      clearTimeout(backoffTimer)
+      backoffTimer = null
+    }
+    const running = child
+    if (!running) return
+    child = null
+    setStatus('stopped')
+
+    killTree(running, 'SIGTERM')
+    const forceKill = setTimeout(() => killTree(running, 'SIGKILL'), STOP_TIMEOUT_MS)
+    await waitForExit(running)
+    clearTimeout(forceKill)
+  }
+
+  const scheduleRestart = (file: string, reinstall: boolean): void => {
+    if (reinstall) invalidateDependencies(backend.cwd)
+    if (restartTimer) clearTimeout(restartTimer)
+    restartTimer = setTimeout(() => {
+      restartTimer = null
+      quickCrashes = 0
+      console.log(`[app-server] Restarting ${label} after ${displayPath(file, backend.cwd)} changed`)
+      enqueue(async () => {
+        await stop()
+        await start()
       })
-      child.on('error', (err) => {
-        console.error(`[app-server] Failed to start: ${err.message}`)
+    }, RESTART_DEBOUNCE_MS)
+  }
+
+  return {
+    process: backend,
+    port,
+    status: () => status,
+    settled,
+    start: () => enqueue(start),
+    handleFileEvent: (file) => {
+      if (hasPackage && file === packageFile) {
+        scheduleRestart(file, true)
+      } else if (backend.watch.some((path) => file === path || file.startsWith(`${path}${sep}`))) {
+        scheduleRestart(file, false)
+      }
+    },
+    close: () => {
+      closed = true
+      if (restartTimer) clearTimeout(restartTimer)
+      enqueue(stop)
+    },
+    kill: () => {
+      if (child) killTree(child, 'SIGTERM')
+    },
+  }
+}
+
+type ExitState = {
+  // Kill functions of the servers that are currently running processes.
+  killers: Set<() => void>
+  onExit: () => void
+  onSigint: () => void
+}
+
+function getExitState(): ExitState {
+  const globals = globalThis as typeof globalThis & { [EXIT_STATE_KEY]?: ExitState }
+  let state = globals[EXIT_STATE_KEY]
+  if (!state) {
+    const killers = new Set<() => void>()
+    const killAll = (): void => {
+      for (const kill of killers) kill()
+    }
+    state = {
+      killers,
+      onExit: killAll,
+      // Vite does not handle Ctrl-C itself, so exit like Node's default handler
+      // would unless something else is listening.
+      onSigint: () => {
+        killAll()
+        if (process.listenerCount('SIGINT') === 1) process.exit(130)
+      },
+    }
+    globals[EXIT_STATE_KEY] = state
+  }
+  return state
+}
+
+// The processes run in their own process groups, so they do not get the
+// terminal's Ctrl-C and must be stopped when Vite exits without closing. One
+// pair of listeners serves every running server (a restart briefly has two).
+function killOnExit(kill: () => void): () => void {
+  const state = getExitState()
+  if (state.killers.size === 0) {
+    process.on('exit', state.onExit)
+    process.on('SIGINT', state.onSigint)
+  }
+  state.killers.add(kill)
+
+  return () => {
+    state.killers.delete(kill)
+    if (state.killers.size === 0) {
+      process.off('exit', state.onExit)
+      process.off('SIGINT', state.onSigint)
+    }
+  }
+}
+
+function printStatus(appName: string, appDir: string, supervisors: Supervisor[]): void {
+  const rows = supervisors.map((supervisor) => [
+    supervisor.status(),
+    supervisor.process.name,
+    String(supervisor.port),
+    supervisor.process.route,
+    displayPath(supervisor.process.cwd, appDir),
+    supervisor.process.command,
+  ])
+  const header = ['status', 'name', 'port', 'route', 'cwd', 'command']
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)))
+  const format = (row: string[]): string => `  ${row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd()}`
+
+  console.log(`[app-server] ${appName}: ${supervisors.length} backend process${supervisors.length === 1 ? '' : 'es'}`)
+  console.log(format(header))
+  for (const row of rows) {
+    console.log(format(row))
+  }
+}
+
+/**
+ * Supervises the selected app's backend processes: `server/` (`npx tsx
+ * src/index.ts` unless app.json `appServer` says otherwise) and the named
+ * processes in app.json `appServers`, e.g. a Python helper, a mock device or a
+ * websocket relay. Dependencies are installed once per directory for processes
+ * whose cwd has a package.json, and a status table is printed once every
+ * process is ready, running or has failed.
+ *
+ * Each process gets a free port as PORT (kept across restarts; the others see
+ * it as APP_SERVER_PORT_<NAME>) and is reachable same-origin under its route
+ * (/__app_server, /__app_server/<name>), including WebSocket upgrades, so the
+ * frontend needs neither ports nor CORS.
+ */
+export default async function appServer(ctx: PluginContext): Promise<Plugin | null> {
+  const appDir = ctx.selectedAppDir
+  if (!appDir) return null
+
+  const processes = readBackendProcesses(ctx, await readTrustedManifest(ctx), appDir)
+  if (processes.length === 0) return null
+
+  const ports = await assignPorts(processes)
+  const sharedEnv = Object.fromEntries(processes.map((backend, index) => [toPortEnvKey(backend.name), String(ports[index])]))
+
+  // Shared so processes with the same cwd never run npm there at the same time.
+  const installs = new Map<string, Promise<boolean>>()
+  const ensureDependencies = (cwd: string, prefix: string): Promise<boolean> => {
+    let install = installs.get(cwd)
+    if (!install) {
+      const started = installDependencies(cwd, prefix)
+      // A failed install is retried on the next start.
+      void started.then((ok) => {
+        if (!ok && installs.get(cwd) === started) installs.delete(cwd)
       })
-      process.on('exit', () => child.kill())
+      installs.set(cwd, started)
+      install = started
+    }
+    return install
+  }
+
+  const supervisors = processes.map((backend, index) => createSupervisor(
+    ctx.selectedApp,
+    backend,
+    ports[index] ?? 0,
+    sharedEnv,
+    ensureDependencies,
+    (cwd) => installs.delete(cwd),
+  ))
+
+  // Longest route first: Vite uses the first matching proxy entry.
+  const proxy: Record<string, ProxyOptions> = {}
+  for (const supervisor of [...supervisors].sort((a, b) => b.process.route.length - a.process.route.length)) {
+    const { route, name } = supervisor.process
+    const key = `^${escapeRegExp(route)}(?=[/?]|$)`
+    if (key in proxy) {
+      console.warn(`[app-server] ${ctx.selectedApp}: route ${route} of "${name}" is already used; not proxied`)
+      continue
+    }
+    proxy[key] = {
+      target: `http://127.0.0.1:${supervisor.port}`,
+      ws: true,
+      xfwd: true,
+      rewrite: (path) => {
+        const rest = path.slice(route.length)
+        return rest.startsWith('/') ? rest : `/${rest}`
+      },
+    }
+  }
+
+  const startAll = (): void => {
+    for (const supervisor of supervisors) {
+      supervisor.start()
+    }
+    void Promise.all(supervisors.map((supervisor) => supervisor.settled)).then(() => {
+      printStatus(ctx.selectedApp, appDir, supervisors)
+    })
+  }
+
+  const killAll = (): void => {
+    for (const supervisor of supervisors) {
+      supervisor.kill()
+    }
+  }
+
+  // Returns the handler for the server's 'close' event.
+  const stopOnClose = (): (() => void) => {
+    const forget = killOnExit(killAll)
+    return () => {
+      forget()
+      for (const supervisor of supervisors) {
+        supervisor.close()
+      }
+    }
+  }
+
+  const handleFileEvent = (file: string): void => {
+    const absPath = resolve(file)
+    for (const supervisor of supervisors) {
+      supervisor.handleFileEvent(absPath)
+    }
+  }
+
+  return {
+    name: 'app-server',
+    config() {
+      // Vite's own proxy (also used by `vite preview`); `ws` forwards upgrades
+      // on the routes while HMR keeps its own socket.
+      return { server: { proxy } }
+    },
+    configureServer(server) {
+      server.watcher.add([...new Set(supervisors.flatMap(({ process: backend }) => [
+        ...backend.watch,
+        resolve(backend.cwd, PACKAGE_FILE),
+      ]))])
+      for (const event of ['add', 'change', 'unlink'] as const) {
+        server.watcher.on(event, handleFileEvent)
+      }
+      server.httpServer?.once('close', stopOnClose())
+      startAll()
+    },
+    configurePreviewServer(server) {
+      server.httpServer.once('close', stopOnClose())
+      startAll()
     },
   }
 }
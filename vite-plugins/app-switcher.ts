@@ -0,0 +1,577 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { existsSync } from 'node:fs'
+import { relative, resolve } from 'node:path'
+import { defaultAllowedOrigins, mergeConfig } from 'vite'
+import type { Connect, HtmlTagDescriptor, Plugin, UserConfig, ViteDevServer } from 'vite'
+import type { PluginContext } from './types'
+
+type MiddlewareLayer = {
+  route: string
+  handle: Connect.HandleFunction
+}
+
+type HostedStacks = {
+  pre: MiddlewareLayer[]
+  post: MiddlewareLayer[]
+  // Remove the watcher and HMR listeners the plugins registered.
+  listeners: Array<() => void>
+}
+
+type AppSwitcherOptions = {
+  apps: Record<string, string>
+  createContext: (name: string, appDir: string) => PluginContext
+  initialApp: string
+  initialPlugins: Plugin[]
+  // Records the selection for the config reload that follows it.
+  onSelect: (name: string, appDir: string) => void
+  // Apps whose plugins are already registered elsewhere (multi-app mode).
+  preloadedApps?: Set<string>
+  // Hot reload of the hosted plugins when their module files change.
+  pluginModules?: {
+    files: (ctx: PluginContext) => string[]
+    // Plugin directories watched for newly added plugin files.
+    dirs: (ctx: PluginContext) => string[]
+    isDirEntry: (file: string, dirs: string[]) => boolean
+    invalidate: (file: string) => string[]
+    reload: (ctx: PluginContext) => Promise<Plugin[]>
+  }
+}
+
+const SELECT_APP_ROUTE = '/__select_app'
+// Hooks whose output ends up in served modules; changing them needs a page reload.
+const MODULE_HOOKS = ['resolveId', 'load', 'transform', 'transformIndexHtml'] as const
+// Teardown hooks Vite runs when the dev server closes.
+const CLOSE_HOOKS = ['buildEnd', 'closeBundle'] as const
+const LISTENER_METHODS = new Set<PropertyKey>(['on', 'addListener', 'once'])
+
+function getHookHandler<T extends (...args: never[]) => unknown>(hook: unknown): T | null {
+  if (typeof hook === 'function') return hook as T
+  if (hook && typeof hook === 'object' && 'handler' in hook) {
+    return (hook as { handler: T }).handler
+  }
+  return null
+}
+
+function normalizeRoute(route: string): string {
+  return route.length > 1 && route.endsWith('/') ? route.slice(0, -1) : route
+}
+
+function matchesRoute(pathname: string, route: string): boolean {
+  if (route === '/') return true
+  if (!pathname.toLowerCase().startsWith(route.toLowerCase())) return false
+  const rest = pathname.charAt(route.length)
+  return rest === '' || rest === '/' || rest === '.'
+}
+
+// Minimal connect-compatible dispatcher: route prefixes are stripped from
+// req.url while a layer runs, error handlers are the 4-argument ones.
+function dispatch(
+  stack: MiddlewareLayer[],
+  req: Connect.IncomingMessage,
+  res: ServerResponse,
+  done: Connect.NextFunction,
+): void {
+  const originalUrl = req.url ?? '/'
+  const pathname = originalUrl.split('?')[0] ?? '/'
+  let index = 0
+
+  const next = (error?: unknown): void => {
+    req.url = originalUrl
+    const layer = stack[index++]
+    if (!layer) {
+      done(error)
+      return
+    }
+
+    if (!matchesRoute(pathname, layer.route)) {
+      next(error)
+      return
+    }
+
+    if (layer.route !== '/') {
+      const rest = originalUrl.slice(layer.route.length)
+      req.url = rest.startsWith('/') ? rest : `/${rest}`
+    }
+
+    const isErrorHandler = layer.handle.length === 4
+    try {
+      if (error !== undefined && isErrorHandler) {
+        ;(layer.handle as Connect.ErrorHandleFunction)(error, req, res, next)
+      } else if (error === undefined && !isErrorHandler) {
+        ;(layer.handle as Connect.NextHandleFunction)(req, res, next)
+      } else {
+        next(error)
+      }
+    } catch (thrown) {
+      next(thrown)
+    }
+  }
+
+  next()
+}
+
+// `on`/`once` on the returned emitter also record how to remove the listener.
+function trackListeners<T extends object>(emitter: T, listeners: Array<() => void>): T {
+  const tracked: T = new Proxy(emitter, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver)
+      if (!LISTENER_METHODS.has(prop) || typeof value !== 'function') {
+        return value
+      }
+      return (event: string, listener: (...args: never[]) => unknown) => {
+        value.call(target, event, listener)
+        listeners.push(() => (target as unknown as { off: (...args: unknown[]) => unknown }).off(event, listener))
+        return tracked
+      }
+    },
+  })
+  return tracked
+}
+
+function createRecordingServer(server: ViteDevServer, getStack: () => MiddlewareLayer[], listeners: Array<() => void>): ViteDevServer {
+  const middlewares = new Proxy(server.middlewares, {
+    get(target, prop, receiver) {
+      if (prop !== 'use') {
+        return Reflect.get(target, prop, receiver)
+      }
+      return function use(route: string | Connect.HandleFunction, handle?: Connect.HandleFunction) {
+        if (typeof route === 'function') {
+          getStack().push({ route: '/', handle: route })
+        } else if (handle) {
+          getStack().push({ route: normalizeRoute(route), handle })
+        }
+        return middlewares
+      }
+    },
+  })
+
+  const watcher = trackListeners(server.watcher, listeners)
+  const ws = trackListeners(server.ws, listeners)
+
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === 'middlewares') return middlewares
+      if (prop === 'watcher') return watcher
+      if (prop === 'ws') return ws
+      return Reflect.get(target, prop, receiver)
+    },
+  })
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderPickerHtml(apps: Record<string, string>, current: string): string {
+  const items = Object.keys(apps)
+    .sort((a, b) => a.localeCompare(b))
+    .map((name) => {
+      const ready = existsSync(resolve(apps[name] as string, 'index.html'))
+      const label = name === current ? `<strong>${escapeHtml(name)}</strong> (current)` : escapeHtml(name)
+      const button = ready
+        ? `<button type="button" data-app="${escapeHtml(name)}">Switch</button>`
+        : '<em>not available</em>'
+      return `<li>${label} ${button}</li>`
+    })
+
+  return `<!doctype html>
+<html>
+<head><meta charset="UTF-8" /><title>even-dev app picker</title></head>
+<body style="font-family: system-ui, sans-serif; margin: 24px;">
+  <h1>Select app</h1>
+  <ul>
+    ${items.join('\n    ')}
+  </ul>
+  <p id="status"></p>
+  <script>
+    document.querySelectorAll('button[data-app]').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const status = document.getElementById('status')
+        status.textContent = 'Switching to ' + button.dataset.app + '...'
+        const response = await fetch('${SELECT_APP_ROUTE}?name=' + encodeURIComponent(button.dataset.app), { method: 'POST' })
+        const result = await response.json()
+        if (!result.ok) {
+          status.textContent = result.error
+          return
+        }
+        status.textContent = 'Restarting the dev server for ' + button.dataset.app + '...'
+        // Wait until the restarted server answers before leaving the picker.
+        await new Promise((resolve) => setTimeout(resolve, 500))
+        for (;;) {
+          try {
+            if ((await fetch('/', { cache: 'no-store' })).ok) break
+          } catch {}
+          await new Promise((resolve) => setTimeout(resolve, 500))
+        }
+        location.href = '/'
+      })
+    })
+  </script>
+</body>
+</html>
+`
+}
+
+function sendJson(res: ServerResponse, statusCode: number, payload: unknown): void {
+  res.statusCode = statusCode
+  res.setHeader('content-type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(payload))
+}
+
+// Switching restarts the whole dev server, so only this machine may do it
+// (the same rule as quicktest-source.ts pushes).
+function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) return false
+  const ipv4 = address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address
+  return address === '::1' || ipv4.startsWith('127.')
+}
+
+// Browsers must also be on the dev server's own pages or another loopback
+// origin, so a page elsewhere cannot switch apps; other tools send no Origin.
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin
+  if (!origin) return true
+  if (defaultAllowedOrigins.test(origin)) return true
+  try {
+    return new URL(origin).host === req.headers.host
+  } catch {
+    return false
+  }
+}
+
+// resolveId/load/transform, transformIndexHtml and handleHotUpdate of the
+// plugins `getPlugins` returns, in order.
+function forwardModuleHooks(
+  getPlugins: () => Plugin[],
+): Pick<Plugin, 'resolveId' | 'load' | 'transform' | 'transformIndexHtml' | 'handleHotUpdate'> {
+  return {
+    async resolveId(source, importer, resolveOptions) {
+      for (const plugin of getPlugins()) {
+        const hook = getHookHandler<(...args: unknown[]) => unknown>(plugin.resolveId)
+        const result = await hook?.call(this as never, source, importer, resolveOptions)
+        if (result != null) return result as string
+      }
+      return null
+    },
+    async load(id, loadOptions) {
+      for (const plugin of getPlugins()) {
+        const hook = getHookHandler<(...args: unknown[]) => unknown>(plugin.load)
+        const result = await hook?.call(this as never, id, loadOptions)
+        if (result != null) return result as string
+      }
+      return null
+    },
+    async transform(code, id, transformOptions) {
+      let current = code
+      let changed = false
+      for (const plugin of getPlugins()) {
+        const hook = getHookHandler<(...args: unknown[]) => unknown>(plugin.transform)
+        const result = await hook?.call(this as never, current, id, transformOptions)
+        if (typeof result === 'string') {
+          current = result
+          changed = true
+        } else if (result && typeof result === 'object' && typeof (result as { code?: unknown }).code === 'string') {
+          current = (result as { code: string }).code
+          changed = true
+        }
+      }
+      return changed ? current : null
+    },
+    async transformIndexHtml(html, ctx) {
+      let current = html
+      const tags: HtmlTagDescriptor[] = []
+      for (const plugin of getPlugins()) {
+        const hook = getHookHandler<(...args: unknown[]) => unknown>(plugin.transformIndexHtml)
+        const result = await hook?.call(this as never, current, ctx)
+        if (typeof result === 'string') {
+          current = result
+        } else if (Array.isArray(result)) {
+          tags.push(...(result as HtmlTagDescriptor[]))
+        } else if (result && typeof result === 'object') {
+          const transformed = result as { html: string; tags: HtmlTagDescriptor[] }
+          current = transformed.html
+          tags.push(...transformed.tags)
+        }
+      }
+      return { html: current, tags }
+    },
+    async handleHotUpdate(ctx) {
+      let modules: typeof ctx.modules | undefined
+      for (const plugin of getPlugins()) {
+        const hook = getHookHandler<(...args: unknown[]) => unknown>(plugin.handleHotUpdate)
+        const result = await hook?.call(this as never, { ...ctx, modules: modules ?? ctx.modules })
+        if (Array.isArray(result)) {
+          modules = result
+        }
+      }
+      return modules
+    },
+  }
+}
+
+/**
+ * Hosts the selected app's discovered plugins behind Vite plugins (one per
+ * `enforce` group, so `pre` and `post` plugins keep their phase) and switches
+ * apps through POST /__select_app?name=<app> (loopback only), which restarts
+ * Vite with the new app selected so every app-bound plugin and setting is
+ * rebuilt.
+ *
+ * Middlewares, resolveId/load/transform, transformIndexHtml and
+ * handleHotUpdate are forwarded to the current app's plugins. With
+ * `pluginModules`, editing a hosted plugin file (or a local module it
+ * imports) re-evaluates it and remounts its middlewares in place; files added
+ * to a plugin directory are picked up too. The replaced plugins are torn down
+ * first: their watcher and HMR listeners are removed and their buildEnd and
+ * closeBundle hooks run. Plugin files of preloaded apps restart the server.
+ */
+export default function appSwitcher(options: AppSwitcherOptions): Plugin[] {
+  const currentApp = options.initialApp
+  let hosted: Plugin[] = options.initialPlugins
+  let stacks: HostedStacks = { pre: [], post: [], listeners: [] }
+  let watchedFiles = new Set<string>()
+  let watchedDirs: string[] = []
+  // Plugin files of preloaded apps, which are registered directly with Vite.
+  let preloadedWatch: Array<{ app: string; files: Set<string>; dirs: string[] }> = []
+  let reloadQueue: Promise<void> = Promise.resolve()
+  let restarting = false
+
+  function watchPluginFiles(server: ViteDevServer): void {
+    const appDir = options.apps[currentApp]
+    if (!options.pluginModules || !appDir || options.preloadedApps?.has(currentApp)) {
+      watchedFiles = new Set()
+      watchedDirs = []
+      return
+    }
+    const ctx = options.createContext(currentApp, appDir)
+    watchedFiles = new Set(options.pluginModules.files(ctx))
+    watchedDirs = options.pluginModules.dirs(ctx)
+    server.watcher.add([...watchedFiles, ...watchedDirs])
+  }
+
+  function watchPreloadedPluginFiles(server: ViteDevServer): void {
+    const { pluginModules } = options
+    if (!pluginModules) return
+    preloadedWatch = [...options.preloadedApps ?? []].flatMap((app) => {
+      const appDir = options.apps[app]
+      if (!appDir) return []
+      const ctx = options.createContext(app, appDir)
+      return [{ app, files: new Set(pluginModules.files(ctx)), dirs: pluginModules.dirs(ctx) }]
+    })
+    server.watcher.add(preloadedWatch.flatMap(({ files, dirs }) => [...files, ...dirs]))
+  }
+
+  function findPreloadedApp(file: string): string | null {
+    const entry = preloadedWatch.find(({ files, dirs }) => files.has(file) || options.pluginModules?.isDirEntry(file, dirs))
+    return entry?.app ?? null
+  }
+
+  async function disposePlugins(plugins: Plugin[], mounted: HostedStacks): Promise<void> {
+    for (const removeListener of mounted.listeners) {
+      removeListener()
+    }
+    for (const plugin of plugins) {
+      for (const hookName of CLOSE_HOOKS) {
+        const hook = getHookHandler<(...args: unknown[]) => unknown>(plugin[hookName])
+        try {
+          await hook?.call(undefined as never)
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error)
+          console.warn(`[app-switcher] ${plugin.name} ${hookName} failed: ${reason}`)
+        }
+      }
+    }
+  }
+
+  async function configurePlugins(server: ViteDevServer, plugins: Plugin[]): Promise<void> {
+    for (const plugin of plugins) {
+      const configResolved = getHookHandler<(config: unknown) => unknown>(plugin.configResolved)
+      await configResolved?.call(undefined as never, server.config)
+    }
+  }
+
+  async function reloadPlugins(server: ViteDevServer, changedFile: string): Promise<void> {
+    const appDir = options.apps[currentApp]
+    if (!options.pluginModules || !appDir) return
+
+    const invalidated = options.pluginModules.invalidate(changedFile)
+    const plugins = await options.pluginModules.reload(options.createContext(currentApp, appDir))
+    await configurePlugins(server, plugins)
+
+    const previous = hosted
+    await disposePlugins(previous, stacks)
+    stacks = await mountPlugins(server, plugins)
+    hosted = plugins
+    watchPluginFiles(server)
+
+    const cwd = process.cwd()
+    console.log(
+      `[app-switcher] Reloaded ${currentApp} plugins after ${relative(cwd, changedFile)} changed`
+      + (invalidated.length > 1 ? ` (re-evaluated: ${invalidated.map((file) => relative(cwd, file)).join(', ')})` : '')
+      + (plugins.length ? ` (loaded: ${plugins.map((plugin) => plugin.name).join(', ')})` : ' (no plugins loaded)'),
+    )
+
+    if ([...previous, ...plugins].some((plugin) => MODULE_HOOKS.some((hook) => plugin[hook]))) {
+      server.moduleGraph.invalidateAll()
+      server.ws.send({ type: 'full-reload', path: '*' })
+    }
+  }
+
+  async function mountPlugins(server: ViteDevServer, plugins: Plugin[]): Promise<HostedStacks> {
+    const next: HostedStacks = { pre: [], post: [], listeners: [] }
+    const postHooks: Array<() => void | Promise<void>> = []
+    // Post hooks close over the server they were configured with, so the
+    // recorder switches stacks instead of handing out a second proxy.
+    let phase: 'pre' | 'post' = 'pre'
+    const recordingServer = createRecordingServer(server, () => next[phase], next.listeners)
+
+    for (const plugin of plugins) {
+      const configureServer = getHookHandler<(server: ViteDevServer) => unknown>(plugin.configureServer)
+      if (!configureServer) continue
+      const postHook = await configureServer.call(undefined as never, recordingServer)
+      if (typeof postHook === 'function') {
+        postHooks.push(postHook as () => void | Promise<void>)
+      }
+    }
+
+    phase = 'post'
+    for (const postHook of postHooks) {
+      await postHook()
+    }
+    return next
+  }
+
+  // The default plugins, framework presets, the app's own vite config and env
+  // are all built from the selected app's context, so switching restarts Vite
+  // in-process (same port) instead of swapping only the hosted plugins.
+  function selectApp(server: ViteDevServer, name: string, appDir: string): void {
+    if (existsSync(resolve(appDir, 'package.json')) && !existsSync(resolve(appDir, 'node_modules'))) {
+      console.warn(`[app-switcher] ${name} has no node_modules yet; run: npm --prefix ${appDir} install`)
+    }
+
+    options.onSelect(name, appDir)
+    console.log(`[app-switcher] Switching from ${currentApp || 'no app'} to ${name}; restarting the dev server`)
+    server.restart().catch((error) => {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.error(`[app-switcher] Failed to restart for ${name}: ${reason}`)
+    })
+  }
+
+  // Hosted plugins run in the Vite phase their `enforce` asks for.
+  const inGroup = (enforce: Plugin['enforce']) => (): Plugin[] => hosted.filter((plugin) => plugin.enforce === enforce)
+
+  const host: Plugin = {
+    name: 'app-switcher',
+    async config(config, env) {
+      let merged: UserConfig = {}
+      for (const plugin of hosted) {
+        const hook = getHookHandler<(config: UserConfig, env: unknown) => unknown>(plugin.config)
+        const result = await hook?.call(undefined as never, config, env)
+        if (result && typeof result === 'object') {
+          merged = mergeConfig(merged, result as UserConfig)
+        }
+      }
+      return merged
+    },
+    async configResolved(config) {
+      for (const plugin of hosted) {
+        const hook = getHookHandler<(config: unknown) => unknown>(plugin.configResolved)
+        await hook?.call(undefined as never, config)
+      }
+    },
+    async configureServer(server) {
+      stacks = await mountPlugins(server, hosted)
+      watchPluginFiles(server)
+      watchPreloadedPluginFiles(server)
+
+      const onPluginFileEvent = (file: string): void => {
+        const changedFile = resolve(file)
+        if (!watchedFiles.has(changedFile) && !options.pluginModules?.isDirEntry(changedFile, watchedDirs)) {
+          const preloadedApp = findPreloadedApp(changedFile)
+          if (!preloadedApp || restarting) return
+          restarting = true
+          console.log(`[app-switcher] ${relative(process.cwd(), changedFile)} changed; restarting to reload ${preloadedApp} plugins`)
+          server.restart().catch((error) => {
+            restarting = false
+            const reason = error instanceof Error ? error.message : String(error)
+            console.error(`[app-switcher] Failed to restart for ${preloadedApp}: ${reason}`)
+          })
+          return
+        }
+        reloadQueue = reloadQueue
+          .then(() => reloadPlugins(server, changedFile))
+          .catch((error) => {
+            const reason = error instanceof Error ? error.message : String(error)
+            console.warn(`[app-switcher] Failed to reload ${currentApp} plugins: ${reason}`)
+          })
+      }
+      server.watcher.on('add', onPluginFileEvent)
+      server.watcher.on('change', onPluginFileEvent)
+      server.watcher.on('unlink', onPluginFileEvent)
+
+      server.middlewares.use(SELECT_APP_ROUTE, async (req: IncomingMessage, res: ServerResponse) => {
+        const name = new URL(req.url ?? '', 'http://localhost').searchParams.get('name')?.trim() ?? ''
+        if (!name) {
+          if (req.method !== 'GET') {
+            sendJson(res, 400, { ok: false, error: 'Missing "name" query parameter' })
+            return
+          }
+          res.statusCode = 200
+          res.setHeader('content-type', 'text/html; charset=utf-8')
+          res.end(renderPickerHtml(options.apps, currentApp))
+          return
+        }
+
+        if (!isLoopbackAddress(req.socket.remoteAddress)) {
+          sendJson(res, 403, { ok: false, error: 'Apps can only be switched from the machine running the dev server.' })
+          return
+        }
+        if (!isAllowedOrigin(req)) {
+          sendJson(res, 403, { ok: false, error: `Origin ${req.headers.origin} may not switch apps.` })
+          return
+        }
+        if (req.method !== 'POST') {
+          sendJson(res, 405, { ok: false, error: 'Method Not Allowed; switch apps with POST' })
+          return
+        }
+
+        const appDir = options.apps[name]
+        if (!appDir) {
+          sendJson(res, 404, { ok: false, error: `Unknown app "${name}"`, apps: Object.keys(options.apps) })
+          return
+        }
+        if (!existsSync(resolve(appDir, 'index.html'))) {
+          sendJson(res, 409, { ok: false, error: `${name} is not available at ${appDir}; run ./start-even.sh --update ${name}` })
+          return
+        }
+
+        // Restarting closes open connections, so answer first.
+        res.once('finish', () => selectApp(server, name, appDir))
+        sendJson(res, 200, { ok: true, app: name, restarting: true })
+      })
+
+      server.middlewares.use((req, res, next) => dispatch(stacks.pre, req, res, next))
+      return () => {
+        server.middlewares.use((req, res, next) => dispatch(stacks.post, req, res, next))
+      }
+    },
+    // Runs once per environment when the server closes; tear down only once.
+    async closeBundle() {
+      const plugins = hosted
+      const mounted = stacks
+      hosted = []
+      stacks = { pre: [], post: [], listeners: [] }
+      await disposePlugins(plugins, mounted)
+    },
+    ...forwardModuleHooks(inGroup(undefined)),
+  }
+
+  return [
+    { name: 'app-switcher:pre', enforce: 'pre', ...forwardModuleHooks(inGroup('pre')) },
+    host,
+    { name: 'app-switcher:post', enforce: 'post', ...forwardModuleHooks(inGroup('post')) },
+  ]
+}
@@ -0,0 +1,171 @@
+import { existsSync, realpathSync } from 'node:fs'
+import { basename, resolve } from 'node:path'
+import { loadConfigFromFile, mergeConfig } from 'vite'
+import type { Alias, ConfigEnv, Plugin, PluginOption, UserConfig } from 'vite'
+import { UNTRUSTED_PLUGIN_CODE, verifyPluginTrust } from './plugin-trust'
+import type { PluginContext } from './types'
+
+// Keys merged from an app's own vite.config.* into the root config. Everything
+// else (root, server, build, ...) belongs to even-dev and is ignored.
+const MERGED_KEYS = ['define', 'esbuild', 'css', 'optimizeDeps', 'envPrefix'] as const
+// Same lookup order as Vite's own config resolution.
+const VITE_CONFIG_FILES = [
+  'vite.config.js',
+  'vite.config.mjs',
+  'vite.config.ts',
+  'vite.config.cjs',
+  'vite.config.mts',
+  'vite.config.cts',
+]
+const POSTCSS_CONFIG_FILES = [
+  'postcss.config.js',
+  'postcss.config.cjs',
+  'postcss.config.mjs',
+  'postcss.config.ts',
+  '.postcssrc',
+  '.postcssrc.json',
+]
+
+export type AppViteConfig = {
+  appName: string
+  configFile: string
+  plugins: Plugin[]
+  settings: UserConfig
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+async function flattenPlugins(option: PluginOption | PluginOption[] | undefined): Promise<Plugin[]> {
+  const resolved = await option
+  if (!resolved) return []
+  if (Array.isArray(resolved)) {
+    const nested = await Promise.all(resolved.map((item) => flattenPlugins(item)))
+    return nested.flat()
+  }
+  return [resolved as Plugin]
+}
+
+function normalizeAliases(alias: unknown): Alias[] {
+  if (Array.isArray(alias)) return alias as Alias[]
+  if (isPlainObject(alias)) {
+    return Object.entries(alias).map(([find, replacement]) => ({ find, replacement: String(replacement) }))
+  }
+  return []
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value)
+}
+
+function collectConflicts(base: unknown, override: unknown, path: string, conflicts: string[]): void {
+  if (base === undefined || override === undefined) return
+  if (isPlainObject(base) && isPlainObject(override)) {
+    for (const key of Object.keys(override)) {
+      collectConflicts(base[key], override[key], `${path}.${key}`, conflicts)
+    }
+    return
+  }
+  // Arrays are concatenated by mergeConfig, so only scalar leaves can clash.
+  if (Array.isArray(base) || Array.isArray(override)) return
+  if (base !== override) {
+    conflicts.push(`${path}: root ${describeValue(base)} -> app ${describeValue(override)}`)
+  }
+}
+
+/**
+ * Loads `<appDir>/vite.config.*` of the selected app the same way `vite` would
+ * when run inside the app, and keeps the parts even-dev can honor: plugins,
+ * resolve.alias, define, esbuild, css, optimizeDeps and envPrefix. Configs of
+ * apps cloned into `.apps-cache/` go through the same approval as their
+ * plugins before they are executed.
+ */
+export async function loadAppViteConfig(ctx: PluginContext, env: ConfigEnv): Promise<AppViteConfig | null> {
+  const { selectedApp: appName, selectedAppDir: appDir } = ctx
+  const configFile = appDir ? VITE_CONFIG_FILES.find((file) => existsSync(resolve(appDir, file))) : undefined
+  if (!appDir || !configFile) return null
+
+  let loaded: Awaited<ReturnType<typeof loadConfigFromFile>>
+  try {
+    await verifyPluginTrust(realpathSync(resolve(appDir, configFile)), ctx)
+    loaded = await loadConfigFromFile(env, resolve(appDir, configFile), appDir, 'silent')
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    console.warn(
+      (error as NodeJS.ErrnoException | null)?.code === UNTRUSTED_PLUGIN_CODE
+        ? `[plugin-trust] ${reason}; not loading its vite config`
+        : `[app-vite-config] Failed to load ${appName} vite config: ${reason}`,
+    )
+    return null
+  }
+  if (!loaded) return null
+
+  const { config } = loaded
+  const settings: UserConfig = {}
+  for (const key of MERGED_KEYS) {
+    if (config[key] !== undefined) {
+      Object.assign(settings, { [key]: config[key] })
+    }
+  }
+
+  const aliases = normalizeAliases(config.resolve?.alias)
+  if (aliases.length > 0) {
+    settings.resolve = { alias: aliases }
+  }
+
+  // PostCSS config (e.g. Tailwind v3) is searched from the Vite root, which is
+  // even-dev's; point it at the app unless the app configures css.postcss.
+  if (config.css?.postcss === undefined && POSTCSS_CONFIG_FILES.some((file) => existsSync(resolve(appDir, file)))) {
+    settings.css = { ...settings.css, postcss: appDir }
+  }
+
+  return {
+    appName,
+    configFile: loaded.path,
+    plugins: await flattenPlugins(config.plugins),
+    settings,
+  }
+}
+
+/**
+ * Drops app config plugins whose name is already registered (for example
+ * apps/restapi/vite.config.ts re-adding its own discovered vite-plugin.ts).
+ */
+export function filterAppConfigPlugins(appConfig: AppViteConfig, registeredNames: Set<string>): Plugin[] {
+  const kept: Plugin[] = []
+  for (const plugin of appConfig.plugins) {
+    if (registeredNames.has(plugin.name)) {
+      console.warn(`[app-vite-config] ${appConfig.appName}: skipping plugin "${plugin.name}" (already registered by even-dev)`)
+      continue
+    }
+    registeredNames.add(plugin.name)
+    kept.push(plugin)
+  }
+  return kept
+}
+
+export function mergeAppViteConfig(rootConfig: UserConfig, appConfig: AppViteConfig): UserConfig {
+  const conflicts: string[] = []
+  for (const key of MERGED_KEYS) {
+    collectConflicts(rootConfig[key], appConfig.settings[key], key, conflicts)
+  }
+
+  const rootAliases = normalizeAliases(rootConfig.resolve?.alias)
+  for (const alias of normalizeAliases(appConfig.settings.resolve?.alias)) {
+    const existing = rootAliases.find((item) => String(item.find) === String(alias.find))
+    if (existing && existing.replacement !== alias.replacement) {
+      conflicts.push(`resolve.alias ${String(alias.find)}: root "${existing.replacement}" -> app "${alias.replacement}"`)
+    }
+  }
+
+  const merged = Object.keys(appConfig.settings)
+  if (merged.length > 0) {
+    console.log(`[app-vite-config] Merged ${merged.join(', ')} from ${appConfig.appName}/${basename(appConfig.configFile)}`)
+  }
+  for (const conflict of conflicts) {
+    console.warn(`[app-vite-config] ${appConfig.appName} overrides ${conflict}`)
+  }
+
+  return mergeConfig(rootConfig, appConfig.settings)
+}
@@ -0,0 +1,88 @@
+import { mkdirSync } from 'node:fs'
+import type { AddressInfo } from 'node:net'
+import { resolve } from 'node:path'
+import type { Plugin } from 'vite'
+import { readAppManifest } from './app-manifest'
+import type { AppRegistryEntry, PluginContext, PluginLogger, PluginServerInfo } from './types'
+
+const PLUGIN_CACHE_ROOT = resolve('node_modules', '.even-dev')
+const DEFAULT_PORT = 5173
+
+export type PluginContextOptions = {
+  externalApps: Record<string, string>
+  appName: string
+  appDir: string | null
+  registry: Record<string, AppRegistryEntry>
+  server: PluginServerInfo
+}
+
+export function createPluginLogger(prefix: string): PluginLogger {
+  const label = `[${prefix}]`
+  return {
+    info: (message) => console.log(`${label} ${message}`),
+    warn: (message) => console.warn(`${label} ${message}`),
+    error: (message) => console.error(`${label} ${message}`),
+  }
+}
+
+export function createServerInfo(): PluginServerInfo {
+  const port = Number(process.env.PORT) || DEFAULT_PORT
+  return { port, origin: `http://localhost:${port}` }
+}
+
+/**
+ * Builds the context handed to default and discovered plugins. Registry
+ * `pluginOptions`, `disabledPlugins` and `proxies` only apply while the
+ * registry entry is the app being served (a built-in app of the same name takes precedence).
+ */
+export function createPluginContext(options: PluginContextOptions): PluginContext {
+  const { appName, appDir } = options
+  const registryEntry = options.registry[appName]
+  const appliesToApp = Boolean(registryEntry && registryEntry.dir === appDir)
+  const cacheDir = resolve(PLUGIN_CACHE_ROOT, appName || '_root')
+  mkdirSync(cacheDir, { recursive: true })
+
+  return {
+    externalApps: appDir ? { ...options.externalApps, [appName]: appDir } : options.externalApps,
+    selectedApp: appName,
+    selectedAppDir: appDir,
+    logger: createPluginLogger(appName || 'even-dev'),
+    manifest: appDir ? readAppManifest(appDir)?.manifest ?? null : null,
+    pluginOptions: appliesToApp ? { ...registryEntry?.pluginOptions } : {},
+    disabledPlugins: appliesToApp ? [...(registryEntry?.disabledPlugins ?? [])] : [],
+    proxies: appliesToApp ? [...(registryEntry?.proxies ?? [])] : [],
+    server: options.server,
+    cacheDir,
+  }
+}
+
+/**
+ * Keeps the shared `PluginServerInfo` in sync with the port Vite actually
+ * uses (CLI `--port`, config, or the next free port when it is taken).
+ */
+export function serverInfoPlugin(info: PluginServerInfo): Plugin {
+  const update = (port: number, origin?: string): void => {
+    info.port = port
+    info.origin = origin ?? `http://localhost:${port}`
+  }
+
+  return {
+    name: 'server-info',
+    configResolved(config) {
+      // Preview servers report their port once listening (below).
+      if (config.server.port) update(config.server.port, config.server.origin)
+    },
+    configureServer(server) {
+      server.httpServer?.once('listening', () => {
+        const address = server.httpServer?.address() as AddressInfo | null
+        if (address?.port) update(address.port, server.config.server.origin)
+      })
+    },
+    configurePreviewServer(server) {
+      server.httpServer.once('listening', () => {
+        const address = server.httpServer.address() as AddressInfo | null
+        if (address?.port) update(address.port, server.config.server.origin)
+      })
+    },
+  }
+}
@@ -0,0 +1,152 @@
+import { mkdir, readFile, unlink, writeFile } from 'node:fs/promises'
+import { isBuiltin } from 'node:module'
+import { basename, dirname, extname, isAbsolute, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { build } from 'esbuild'
+import type { Plugin as EsbuildPlugin } from 'esbuild'
+
+export type EsmModule = {
+  exports: Record<string, unknown>
+  // Local files bundled into the module (real paths), excluding the entry.
+  dependencies: string[]
+}
+
+const DIRNAME_VAR = '__even_injected_dirname'
+const FILENAME_VAR = '__even_injected_filename'
+const IMPORT_META_URL_VAR = '__even_injected_import_meta_url'
+// Bundled modules are imported from here and deleted right after. Next to
+// the per-app plugin cache directories (see context.ts).
+const TEMP_DIR = resolve('node_modules', '.even-dev', '_esm')
+
+// Bundled output runs from a temp file, so every local file gets its own
+// __dirname/__filename/import.meta.url. Injected on the first line to keep
+// source map line numbers intact (same approach as Vite's config loader).
+const injectFileValues: EsbuildPlugin = {
+  name: 'even-inject-file-values',
+  setup(pluginBuild) {
+    pluginBuild.onLoad({ filter: /\.[cm]?[jt]s$/ }, async (args) => {
+      const contents = await readFile(args.path, 'utf8')
+      const injected = `const ${DIRNAME_VAR} = ${JSON.stringify(dirname(args.path))};`
+        + `const ${FILENAME_VAR} = ${JSON.stringify(args.path)};`
+        + `const ${IMPORT_META_URL_VAR} = ${JSON.stringify(pathToFileURL(args.path).href)};`
+      return {
+        loader: extname(args.path).endsWith('ts') ? 'ts' : 'js',
+        contents: injected + contents,
+      }
+    })
+  },
+}
+
+// The bundle runs from TEMP_DIR, so packages stay external but are pinned to
+// the files they resolve to from the importing source (the app's own
+// node_modules), like Vite's config loader does.
+const externalizePackages: EsbuildPlugin = {
+  name: 'even-externalize-packages',
+  setup(pluginBuild) {
+    pluginBuild.onResolve({ filter: /^[^./]/ }, async (args) => {
+      if (args.pluginData?.externalizing || isAbsolute(args.path) || isBuiltin(args.path)) {
+        return undefined
+      }
+      const resolved = await pluginBuild.resolve(args.path, {
+        kind: args.kind,
+        importer: args.importer,
+        resolveDir: args.resolveDir,
+        pluginData: { externalizing: true },
+      })
+      if (resolved.errors.length > 0) {
+        return { errors: resolved.errors }
+      }
+      // require() takes paths, import takes URLs.
+      return {
+        path: args.kind === 'require-call' ? resolved.path : pathToFileURL(resolved.path).href,
+        external: true,
+      }
+    })
+  },
+}
+
+// Lets bundled CommonJS-style code and `require()` calls to packages work.
+const REQUIRE_BANNER = "import { createRequire as __evenCreateRequire } from 'node:module';"
+  + 'const require = __evenCreateRequire(import.meta.url);'
+
+let sourceMapsEnabled = false
+
+/**
+ * Imports a plugin file as a native ES module: local imports are bundled with
+ * esbuild (packages stay external, pinned to where they resolve from the
+ * plugin's directory), written to a temporary `.mjs` in
+ * node_modules/.even-dev/_esm and imported with an inline source map so stack
+ * traces point at the original files. Supports top-level await,
+ * `import.meta` and ESM-only dependencies. Node keeps every imported
+ * module in memory, so each reload adds one entry to its ESM cache.
+ */
+export async function importEsmModule(realPath: string): Promise<EsmModule> {
+  if (!sourceMapsEnabled) {
+    process.setSourceMapsEnabled(true)
+    sourceMapsEnabled = true
+  }
+
+  const tempFile = resolve(
+    TEMP_DIR,
+    `${basename(realPath)}.timestamp-${Date.now()}-${Math.random().toString(16).slice(2, 8)}.mjs`,
+  )
+  const result = await build({
+    entryPoints: [realPath],
+    absWorkingDir: dirname(realPath),
+    // Not written; places source map paths relative to the temp file.
+    outfile: tempFile,
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    target: 'node18',
+    sourcemap: 'inline',
+    write: false,
+    metafile: true,
+    logLevel: 'silent',
+    banner: { js: REQUIRE_BANNER },
+    define: {
+      __dirname: DIRNAME_VAR,
+      __filename: FILENAME_VAR,
+      'import.meta.url': IMPORT_META_URL_VAR,
+    },
+    plugins: [externalizePackages, injectFileValues],
+  })
+
+  const code = result.outputFiles[0]?.text ?? ''
+  await mkdir(TEMP_DIR, { recursive: true })
+  await writeFile(tempFile, code)
+  try {
+    const exports = (await import(pathToFileURL(tempFile).href)) as Record<string, unknown>
+    const dependencies = Object.keys(result.metafile.inputs)
+      .map((input) => resolve(dirname(realPath), input))
+      .filter((input) => input !== realPath)
+    return { exports, dependencies }
+  } finally {
+    await unlink(tempFile).catch(() => undefined)
+  }
+}
+
+/**
+ * Local files `importEsmModule` would bundle for a plugin (entry included),
+ * resolved by esbuild without running any of them. Falls back to the entry
+ * alone when the plugin does not build.
+ */
+export async function collectLocalInputs(realPath: string): Promise<string[]> {
+  try {
+    const result = await build({
+      entryPoints: [realPath],
+      absWorkingDir: dirname(realPath),
+      bundle: true,
+      packages: 'external',
+      format: 'esm',
+      platform: 'node',
+      write: false,
+      metafile: true,
+      logLevel: 'silent',
+    })
+    const inputs = Object.keys(result.metafile.inputs).map((input) => resolve(dirname(realPath), input))
+    return [realPath, ...inputs.filter((input) => input !== realPath)]
+  } catch {
+    return [realPath]
+  }
+}
@@ -0,0 +1,91 @@
+import type { HtmlTagDescriptor, Plugin } from 'vite'
+import { APP_MANIFEST_FILE, readAppManifest, readNetworkPermissions } from './app-manifest'
+import { isHostAllowed, normalizeHostEntry } from './network-sandbox'
+import { createProxyPlugin } from './proxy'
+
+export const FETCH_PROXY_ROUTE = '/__fetch_proxy'
+const PROXY_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+function readAllowedHosts(appDir: string): string[] {
+  const manifest = readAppManifest(appDir)?.manifest
+  return manifest ? (readNetworkPermissions(manifest) ?? []).map(normalizeHostEntry) : []
+}
+
+// Runs before the app's modules. Same-origin and undeclared hosts are left
+// alone, so the app behaves as on the device apart from CORS.
+function renderShim(appName: string, hosts: string[]): string {
+  const config = JSON.stringify({ route: FETCH_PROXY_ROUTE, app: appName, hosts }).replace(/</g, '\\u003c')
+  return `
+(() => {
+  const config = ${config}
+  const isDeclared = (host) => config.hosts.some((entry) =>
+    entry === '*' || entry === host || (entry.startsWith('*.') && host.endsWith(entry.slice(1))))
+  const toProxyUrl = (input) => {
+    let url
+    try {
+      url = new URL(input, location.href)
+    } catch {
+      return null
+    }
+    if (url.origin === location.origin || (url.protocol !== 'http:' && url.protocol !== 'https:')) return null
+    if (!isDeclared(url.hostname.toLowerCase())) return null
+    return location.origin + config.route + '?app=' + encodeURIComponent(config.app) + '&url=' + encodeURIComponent(url.href)
+  }
+
+  const originalFetch = window.fetch.bind(window)
+  window.fetch = (input, init) => {
+    const request = input instanceof Request ? input : null
+    const proxied = toProxyUrl(request ? request.url : String(input))
+    if (!proxied) return originalFetch(input, init)
+    return originalFetch(request ? new Request(proxied, request) : proxied, init)
+  }
+
+  const originalOpen = XMLHttpRequest.prototype.open
+  XMLHttpRequest.prototype.open = function (method, url, ...rest) {
+    return originalOpen.call(this, method, toProxyUrl(String(url)) ?? url, ...rest)
+  }
+})()
+`
+}
+
+/**
+ * Inline script for the app's index.html that sends fetch/XMLHttpRequest
+ * calls to hosts in the app.json `network` permission whitelist through
+ * /__fetch_proxy, so app code can use the real URLs it uses on the device.
+ */
+export function createFetchShimTags(appName: string, appDir: string): HtmlTagDescriptor[] {
+  const hosts = readAllowedHosts(appDir)
+  if (hosts.length === 0) {
+    console.warn(`[fetch-shim] ${appName} declares no hosts in ${APP_MANIFEST_FILE} network whitelist; nothing to proxy`)
+    return []
+  }
+  return [{ tag: 'script', children: renderShim(appName, hosts), injectTo: 'head-prepend' }]
+}
+
+/**
+ * Generic proxy used by the fetch shim: `/__fetch_proxy?app=<name>&url=<url>`.
+ * Only hosts in the app.json `network` permission whitelist are allowed
+ * (checked on every request), and `resolveAppDir` returns null for apps that
+ * are not served or have the shim switched off.
+ */
+export function fetchShimProxy(resolveAppDir: (appName: string) => string | null): Plugin {
+  return createProxyPlugin({
+    name: 'fetch-shim-proxy',
+    label: 'Fetch proxy',
+    route: FETCH_PROXY_ROUTE,
+    queryParam: 'url',
+    methods: PROXY_METHODS,
+    headers: { forward: 'all', response: 'all' },
+    checkUpstream: (target, req) => {
+      const appName = new URL(req.url ?? '', 'http://localhost').searchParams.get('app') ?? ''
+      const appDir = resolveAppDir(appName)
+      if (!appDir) {
+        return `The fetch shim is not enabled for app "${appName}"`
+      }
+      const host = target.hostname.toLowerCase()
+      return isHostAllowed(host, readAllowedHosts(appDir))
+        ? null
+        : `${host} is not declared in ${appName}/${APP_MANIFEST_FILE} network whitelist`
+    },
+  })
+}
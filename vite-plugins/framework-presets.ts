@@ -0,0 +1,197 @@
+import { existsSync, readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import type { ESBuildOptions, Plugin } from 'vite'
+import type { PluginContext } from './types'
+
+type FrameworkPlugin = {
+  packageName: string
+  exportName: string
+}
+
+type FrameworkPreset = {
+  name: string
+  // First matching dependency selects the preset, so order matters:
+  // Preact and Solid apps often list react-compatible packages too.
+  dependency: string
+  esbuild: ESBuildOptions | null
+  plugins: FrameworkPlugin[]
+  // Without its plugin the framework cannot compile (SFCs, Solid JSX, ...).
+  requiresPlugin: boolean
+}
+
+const FRAMEWORK_PRESETS: FrameworkPreset[] = [
+  {
+    name: 'solid',
+    dependency: 'solid-js',
+    esbuild: { jsx: 'preserve' },
+    plugins: [{ packageName: 'vite-plugin-solid', exportName: 'default' }],
+    requiresPlugin: true,
+  },
+  {
+    name: 'preact',
+    dependency: 'preact',
+    esbuild: { jsx: 'automatic', jsxImportSource: 'preact' },
+    plugins: [{ packageName: '@preact/preset-vite', exportName: 'default' }],
+    requiresPlugin: false,
+  },
+  {
+    name: 'vue',
+    dependency: 'vue',
+    esbuild: { jsx: 'automatic', jsxImportSource: 'vue' },
+    plugins: [
+      { packageName: '@vitejs/plugin-vue', exportName: 'default' },
+      { packageName: '@vitejs/plugin-vue-jsx', exportName: 'default' },
+    ],
+    requiresPlugin: true,
+  },
+  {
+    name: 'svelte',
+    dependency: 'svelte',
+    esbuild: null,
+    plugins: [{ packageName: '@sveltejs/vite-plugin-svelte', exportName: 'svelte' }],
+    requiresPlugin: true,
+  },
+  {
+    name: 'react',
+    dependency: 'react',
+    esbuild: { jsx: 'automatic', jsxImportSource: 'react' },
+    plugins: [
+      { packageName: '@vitejs/plugin-react', exportName: 'default' },
+      { packageName: '@vitejs/plugin-react-swc', exportName: 'default' },
+    ],
+    requiresPlugin: false,
+  },
+]
+
+function readDependencies(appDir: string): Set<string> {
+  const packageJsonPath = resolve(appDir, 'package.json')
+  if (!existsSync(packageJsonPath)) {
+    return new Set()
+  }
+
+  try {
+    const pkg = JSON.parse(readFileSync(packageJsonPath, 'utf8')) as Record<string, Record<string, string> | undefined>
+    return new Set([...Object.keys(pkg.dependencies ?? {}), ...Object.keys(pkg.devDependencies ?? {})])
+  } catch {
+    return new Set()
+  }
+}
+
+function findPreset(appDir: string): FrameworkPreset | null {
+  const dependencies = readDependencies(appDir)
+  return FRAMEWORK_PRESETS.find((candidate) => dependencies.has(candidate.dependency)) ?? null
+}
+
+function pickExportEntry(value: unknown): string | null {
+  if (typeof value === 'string') return value
+  if (value && typeof value === 'object') {
+    const conditions = value as Record<string, unknown>
+    for (const condition of ['import', 'default', 'require', 'node']) {
+      const entry = pickExportEntry(conditions[condition])
+      if (entry) return entry
+    }
+  }
+  return null
+}
+
+// ESM-only packages reject require.resolve, so fall back to reading the
+// package's own export map from the app's node_modules.
+function resolvePackageEntry(appDir: string, packageName: string): string | null {
+  try {
+    return createRequire(resolve(appDir, 'package.json')).resolve(packageName)
+  } catch {
+    // Try the export map below.
+  }
+
+  const packageDir = resolve(appDir, 'node_modules', packageName)
+  const packageJsonPath = resolve(packageDir, 'package.json')
+  if (!existsSync(packageJsonPath)) {
+    return null
+  }
+
+  const pkg = JSON.parse(readFileSync(packageJsonPath, 'utf8')) as Record<string, unknown>
+  const exportsField = pkg.exports as Record<string, unknown> | string | undefined
+  const rootExport = typeof exportsField === 'object' && exportsField !== null && '.' in exportsField
+    ? exportsField['.']
+    : exportsField
+  const entry = pickExportEntry(rootExport) ?? (pkg.module as string | undefined) ?? (pkg.main as string | undefined)
+  return entry ? resolve(packageDir, entry) : null
+}
+
+async function loadFrameworkPlugin(appDir: string, frameworkPlugin: FrameworkPlugin): Promise<Plugin[] | null> {
+  const entry = resolvePackageEntry(appDir, frameworkPlugin.packageName)
+  if (!entry) {
+    return null
+  }
+
+  const imported = (await import(pathToFileURL(entry).href)) as Record<string, unknown>
+  // CJS packages imported as ESM wrap their exports once more in `default`.
+  const candidates = [imported[frameworkPlugin.exportName], (imported.default as Record<string, unknown> | undefined)?.[frameworkPlugin.exportName], imported.default]
+  const factory = candidates.find((candidate) => typeof candidate === 'function') as (() => Plugin | Plugin[]) | undefined
+  if (!factory) {
+    throw new Error(`${frameworkPlugin.packageName} does not export a plugin factory`)
+  }
+
+  const plugins = factory()
+  return (Array.isArray(plugins) ? plugins.flat() : [plugins]).filter(Boolean) as Plugin[]
+}
+
+/**
+ * Applies a framework preset for the selected app based on its package.json:
+ * esbuild JSX settings plus the framework's Vite plugin when the app has it
+ * installed. Replaces per-app shims such as the old worldclock JSX plugin.
+ */
+export default async function frameworkPresets(ctx: PluginContext): Promise<Plugin[] | null> {
+  if (!ctx.selectedAppDir) {
+    return null
+  }
+
+  const appDir = ctx.selectedAppDir
+  const preset = findPreset(appDir)
+  if (!preset) {
+    return null
+  }
+
+  const frameworkPlugins: Plugin[] = []
+  const loadedPackages: string[] = []
+  for (const frameworkPlugin of preset.plugins) {
+    try {
+      const loaded = await loadFrameworkPlugin(appDir, frameworkPlugin)
+      if (loaded) {
+        frameworkPlugins.push(...loaded)
+        loadedPackages.push(frameworkPlugin.packageName)
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.warn(`[framework-presets] Failed to load ${frameworkPlugin.packageName} for ${ctx.selectedApp}: ${reason}`)
+    }
+  }
+
+  if (preset.requiresPlugin && frameworkPlugins.length === 0) {
+    console.warn(
+      `[framework-presets] ${ctx.selectedApp} uses ${preset.name} but none of `
+      + `${preset.plugins.map((plugin) => plugin.packageName).join(', ')} is installed in the app.`,
+    )
+  }
+
+  console.log(
+    `[framework-presets] ${ctx.selectedApp}: ${preset.name} preset`
+    + (loadedPackages.length ? ` (+ ${loadedPackages.join(', ')})` : ''),
+  )
+
+  const presetPlugin: Plugin = {
+    name: `framework-preset-${preset.name}`,
+    config(config) {
+      // Framework plugins configure JSX themselves; an app config that already
+      // sets esbuild.jsx wins as well.
+      if (!preset.esbuild || frameworkPlugins.length > 0 || config.esbuild === false || config.esbuild?.jsx) {
+        return null
+      }
+      return { esbuild: preset.esbuild }
+    },
+  }
+
+  return [presetPlugin, ...frameworkPlugins]
+}
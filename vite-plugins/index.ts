@@ -1,11 +1,24 @@
 import type { Plugin } from 'vite'
 import type { PluginContext } from './types'
-import { lstatSync, readFileSync, realpathSync } from 'node:fs'
+import { lstatSync, readdirSync, readFileSync, realpathSync } from 'node:fs'
 import { createRequire } from 'node:module'
 import { basename, dirname, extname, isAbsolute, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
 import { transformSync } from 'esbuild'
+import { importEsmModule } from './esm-loader'
+import appManifest from './app-manifest'
 import appServer from './app-server'
 import browserLauncher from './browser-launcher'
+import frameworkPresets from './framework-presets'
+import networkSandbox from './network-sandbox'
+import { describeLoadError, recordPluginLoad, trackPluginRoutes } from './plugin-diagnostics'
+import type { PluginReportEntry } from './plugin-diagnostics'
+import { UNTRUSTED_PLUGIN_CODE, verifyPluginTrust } from './plugin-trust'
+import proxyFixtures from './proxy-fixtures'
+import proxyTraffic from './proxy-traffic'
+import quicktestSource from './quicktest-source'
+import { createDeclaredProxyPlugins } from './proxy'
+import { APPS_REGISTRY_FILE } from './registry'
 
 type PluginFactory =
   | Plugin
@@ -13,16 +26,42 @@ type PluginFactory =
   | undefined
   | ((ctx: PluginContext) => Plugin | Plugin[] | null | undefined | Promise<Plugin | Plugin[] | null | undefined>)
 
-type DefaultPluginFactory = (ctx: PluginContext) => Plugin | null
+type PluginEnforce = 'pre' | 'post'
 
-// Add default always-on plugins here.
-const DEFAULT_PLUGIN_FACTORIES: DefaultPluginFactory[] = [
-  (ctx) => appServer(ctx),
-  () => browserLauncher(),
+type LoadedPluginFile = {
+  file: string
+  order: number
+  enforce: PluginEnforce | null
+  plugins: Plugin[]
+}
+
+type DefaultPluginFactory = (ctx: PluginContext) => Plugin | Plugin[] | null | Promise<Plugin | Plugin[] | null>
+
+// Add default always-on plugins here (file names are shown in /__plugins).
+const DEFAULT_PLUGIN_FACTORIES: Array<[file: string, create: DefaultPluginFactory]> = [
+  ['app-server.ts', (ctx) => appServer(ctx)],
+  ['app-manifest.ts', (ctx) => appManifest(ctx)],
+  ['browser-launcher.ts', () => browserLauncher()],
+  ['framework-presets.ts', (ctx) => frameworkPresets(ctx)],
+  ['network-sandbox.ts', (ctx) => networkSandbox(ctx)],
+  ['proxy-fixtures.ts', () => proxyFixtures()],
+  ['proxy-traffic.ts', () => proxyTraffic()],
+  ['quicktest-source.ts', () => quicktestSource()],
 ]
 
 const LOADABLE_EXTENSIONS = ['.ts', '.js', '.mjs', '.cjs'] as const
+// App-local directory for several plugin files (next to vite-plugin.ts).
+const APP_PLUGIN_DIR = 'even-plugins'
+const ENFORCE_RANK: Record<string, number> = { pre: 0, normal: 1, post: 2 }
 const moduleCache = new Map<string, unknown>()
+// Local imports per loaded module (real paths), used to invalidate importers
+// when a dependency changes.
+const moduleDependencies = new Map<string, Set<string>>()
+// ESM loading failures that the CommonJS path can still handle: code relying
+// on the CJS module scope, or a node_modules we cannot write the temporary
+// module into.
+const COMMONJS_ONLY_ERROR = /Dynamic require of|\b(module|exports) is not defined/
+const UNWRITABLE_DIR_CODES = new Set(['EACCES', 'EPERM', 'EROFS'])
 
 function isRelativeSpecifier(specifier: string): boolean {
   return specifier.startsWith('./') || specifier.startsWith('../') || specifier.startsWith('/')
@@ -74,11 +113,14 @@ function readModuleExports(absPath: string): unknown {
 
   const module = { exports: {} as unknown }
   moduleCache.set(realPath, module.exports)
+  const dependencies = new Set<string>()
+  moduleDependencies.set(realPath, dependencies)
 
   const localRequire = createRequire(realPath)
   const runtimeRequire = (specifier: string): unknown => {
     const localPath = isRelativeSpecifier(specifier) ? resolveLocalModulePath(specifier, realPath) : null
     if (localPath) {
+      dependencies.add(realpathSync(localPath))
       return readModuleExports(localPath)
     }
     return localRequire(specifier)
@@ -90,33 +132,204 @@ function readModuleExports(absPath: string): unknown {
     'exports',
     '__filename',
     '__dirname',
-    transformed.code,
+    `${transformed.code}\n//# sourceURL=${pathToFileURL(realPath).href}`,
   )
-  wrapped(runtimeRequire, module, module.exports, realPath, dirname(realPath))
+  try {
+    wrapped(runtimeRequire, module, module.exports, realPath, dirname(realPath))
+  } catch (error) {
+    // Let the next load (e.g. a hot reload after the fix) evaluate it again.
+    moduleCache.delete(realPath)
+    throw error
+  }
   moduleCache.set(realPath, module.exports)
 
   return module.exports
 }
 
+function shouldFallBackToCommonJs(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code
+  if (code && UNWRITABLE_DIR_CODES.has(code)) return true
+  return error instanceof Error && COMMONJS_ONLY_ERROR.test(error.message)
+}
+
+// `.cjs` plugins keep the CommonJS path; everything else is imported as a
+// native ES module and only falls back to CommonJS when ESM cannot load it.
+async function loadModuleExports(absPath: string): Promise<unknown> {
+  const realPath = realpathSync(absPath)
+  const cached = moduleCache.get(realPath)
+  if (cached !== undefined) {
+    return cached
+  }
+  if (extname(realPath).toLowerCase() === '.cjs') {
+    return readModuleExports(realPath)
+  }
+
+  try {
+    const loaded = await importEsmModule(realPath)
+    moduleCache.set(realPath, loaded.exports)
+    moduleDependencies.set(realPath, new Set(loaded.dependencies))
+    return loaded.exports
+  } catch (error) {
+    if (!shouldFallBackToCommonJs(error)) throw error
+    const reason = error instanceof Error ? error.message : String(error)
+    console.warn(`[vite-plugins] ${basename(realPath)}: loading as CommonJS (${reason})`)
+    return readModuleExports(realPath)
+  }
+}
+
+function collectModuleTree(realPath: string, files: Set<string>): void {
+  if (files.has(realPath)) return
+  files.add(realPath)
+  for (const dependency of moduleDependencies.get(realPath) ?? []) {
+    collectModuleTree(dependency, files)
+  }
+}
+
+function toRealPath(absPath: string): string {
+  try {
+    return realpathSync(absPath)
+  } catch {
+    return resolve(absPath)
+  }
+}
+
+/**
+ * Drops a plugin module and every loaded module that imports it (directly or
+ * through other local files, including ones bundled into an ES module) from
+ * the loader cache. Returns the changed file and the invalidated importers.
+ */
+export function invalidatePluginModule(absPath: string): string[] {
+  const changed = toRealPath(absPath)
+  const invalidated = new Set<string>()
+  const pending = [changed]
+
+  while (pending.length > 0) {
+    const file = pending.pop() as string
+    if (invalidated.has(file)) continue
+    invalidated.add(file)
+    for (const [importer, dependencies] of moduleDependencies) {
+      if (dependencies.has(file)) {
+        pending.push(importer)
+      }
+    }
+  }
+
+  for (const file of invalidated) {
+    moduleCache.delete(file)
+    moduleDependencies.delete(file)
+  }
+  return [...invalidated]
+}
+
 function normalizeModuleDefault(moduleExports: unknown): PluginFactory {
-  if (
-    moduleExports &&
-    typeof moduleExports === 'object' &&
-    'default' in (moduleExports as Record<string, unknown>)
+  let current = moduleExports
+  // CommonJS plugins imported through the ESM path arrive as
+  // `{ default: { default: factory } }`, so unwrap more than once.
+  while (
+    current &&
+    typeof current === 'object' &&
+    'default' in (current as Record<string, unknown>)
   ) {
-    return (moduleExports as { default: PluginFactory }).default
+    current = (current as { default: unknown }).default
   }
-  return moduleExports as PluginFactory
+  return current as PluginFactory
 }
 
-async function evaluatePluginModule(absPath: string, ctx: PluginContext): Promise<Plugin[]> {
-  const entry = normalizeModuleDefault(readModuleExports(absPath))
+// Named exports next to the default export, e.g. `export const order = 10`.
+// Looks through the same default wrappers as normalizeModuleDefault.
+function readModuleOption(moduleExports: unknown, key: string): unknown {
+  let current = moduleExports
+  while (current && typeof current === 'object') {
+    const record = current as Record<string, unknown>
+    if (record[key] !== undefined) return record[key]
+    current = record.default
+  }
+  return undefined
+}
+
+async function evaluatePluginModule(absPath: string, ctx: PluginContext): Promise<LoadedPluginFile> {
+  const realPath = realpathSync(absPath)
+  // Cached modules were verified when they were first evaluated.
+  if (!moduleCache.has(realPath)) {
+    await verifyPluginTrust(realPath, ctx)
+  }
+  const moduleExports = await loadModuleExports(absPath)
+  const entry = normalizeModuleDefault(moduleExports)
   const resolved = typeof entry === 'function' ? await entry(ctx) : entry
-  if (!resolved) {
-    return []
+  const plugins = resolved
+    ? (Array.isArray(resolved) ? resolved : [resolved]).filter((plugin): plugin is Plugin => Boolean(plugin))
+    : []
+
+  const order = readModuleOption(moduleExports, 'order')
+  const enforce = readModuleOption(moduleExports, 'enforce')
+  if (order !== undefined && typeof order !== 'number') {
+    console.warn(`[vite-plugins] ${basename(absPath)}: ignoring non-numeric "order" export`)
+  }
+  if (enforce !== undefined && enforce !== 'pre' && enforce !== 'post') {
+    console.warn(`[vite-plugins] ${basename(absPath)}: "enforce" export must be "pre" or "post"`)
+  }
+
+  return {
+    file: absPath,
+    order: typeof order === 'number' ? order : 0,
+    enforce: enforce === 'pre' || enforce === 'post' ? enforce : null,
+    plugins,
+  }
+}
+
+// Vite's own grouping (pre, normal, post), then the file's `order` export,
+// then discovery order. Array.prototype.sort is stable.
+function orderPlugins(files: LoadedPluginFile[]): Plugin[] {
+  const entries = files.flatMap((file, fileIndex) => file.plugins.map((plugin) => {
+    if (file.enforce && !plugin.enforce) {
+      plugin.enforce = file.enforce
+    }
+    return { plugin, order: file.order, fileIndex }
+  }))
+
+  entries.sort((a, b) =>
+    (ENFORCE_RANK[a.plugin.enforce ?? 'normal'] ?? 1) - (ENFORCE_RANK[b.plugin.enforce ?? 'normal'] ?? 1)
+    || a.order - b.order
+    || a.fileIndex - b.fileIndex)
+  return entries.map((entry) => entry.plugin)
+}
+
+// One diagnostics entry per plugin the file returned (or one `empty` entry),
+// with route tracking attached.
+function describeLoadedPlugins(
+  kind: PluginReportEntry['kind'],
+  file: string,
+  plugins: Plugin[],
+  ctx: PluginContext,
+): PluginReportEntry[] {
+  const source = toRealPath(file)
+  if (plugins.length === 0) {
+    return [{ kind, name: null, file, source, status: 'empty', error: null, routes: [] }]
   }
+  return plugins.map((plugin) => {
+    const entry: PluginReportEntry = {
+      kind,
+      name: plugin.name,
+      file,
+      source,
+      status: ctx.disabledPlugins.includes(plugin.name) ? 'disabled' : 'loaded',
+      error: null,
+      routes: [],
+    }
+    trackPluginRoutes(plugin, entry)
+    return entry
+  })
+}
+
+function filterDisabledPlugins(plugins: Plugin[], ctx: PluginContext): Plugin[] {
+  if (ctx.disabledPlugins.length === 0) return plugins
 
-  return (Array.isArray(resolved) ? resolved : [resolved]).filter((plugin): plugin is Plugin => plugin !== null)
+  const disabled = new Set(ctx.disabledPlugins)
+  return plugins.filter((plugin) => {
+    if (!disabled.has(plugin.name)) return true
+    console.log(`[vite-plugins] ${ctx.selectedApp}: plugin "${plugin.name}" is disabled in apps.json`)
+    return false
+  })
 }
 
 function discoverSelectedRootPluginFiles(ctx: PluginContext): string[] {
@@ -137,6 +350,46 @@ function discoverSelectedRootPluginFiles(ctx: PluginContext): string[] {
     })
 }
 
+function isPluginFileName(name: string): boolean {
+  // `_helpers.ts` and dotfiles (including the ESM loader's temp modules) are not plugins.
+  return !name.startsWith('_')
+    && !name.startsWith('.')
+    && !name.endsWith('.d.ts')
+    && (LOADABLE_EXTENSIONS as readonly string[]).includes(extname(name))
+}
+
+function getRootPluginDir(ctx: PluginContext): string | null {
+  return ctx.selectedApp ? resolve(__dirname, ctx.selectedApp) : null
+}
+
+function getAppPluginDir(ctx: PluginContext): string | null {
+  return ctx.selectedAppDir ? resolve(ctx.selectedAppDir, APP_PLUGIN_DIR) : null
+}
+
+/**
+ * Directories holding several plugin files for the selected app:
+ * `vite-plugins/<app>/` and `<app-dir>/even-plugins/`.
+ */
+export function discoverPluginDirs(ctx: PluginContext): string[] {
+  return [getRootPluginDir(ctx), getAppPluginDir(ctx)].filter((dir): dir is string => dir !== null)
+}
+
+export function isPluginDirEntry(absPath: string, dirs: string[]): boolean {
+  return dirs.includes(dirname(absPath)) && isPluginFileName(basename(absPath))
+}
+
+function listPluginDirFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => (entry.isFile() || entry.isSymbolicLink()) && isPluginFileName(entry.name))
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b))
+      .map((name) => resolve(dir, name))
+  } catch {
+    return []
+  }
+}
+
 function discoverSelectedAppPluginFile(ctx: PluginContext): string[] {
   if (!ctx.selectedAppDir) {
     return []
@@ -178,26 +431,113 @@ function dedupeRealpaths(paths: string[]): string[] {
   return unique
 }
 
-export async function loadAppPlugins(ctx: PluginContext): Promise<Plugin[]> {
-  const defaults: Plugin[] = DEFAULT_PLUGIN_FACTORIES
-    .map((createPlugin) => createPlugin(ctx))
-    .filter((p): p is Plugin => p !== null)
-
-  const discoveredFiles = dedupeRealpaths([
+function discoverPluginFiles(ctx: PluginContext): string[] {
+  const rootPluginDir = getRootPluginDir(ctx)
+  const appPluginDir = getAppPluginDir(ctx)
+  return dedupeRealpaths([
     ...discoverSelectedRootPluginFiles(ctx),
+    ...(rootPluginDir ? listPluginDirFiles(rootPluginDir) : []),
     ...discoverSelectedAppPluginFile(ctx),
+    ...(appPluginDir ? listPluginDirFiles(appPluginDir) : []),
   ])
+}
+
+/**
+ * Real paths of the app's discovered plugin files plus the local modules they
+ * imported when last loaded, i.e. everything a plugin hot reload depends on.
+ */
+export function collectPluginModuleFiles(ctx: PluginContext): string[] {
+  const files = new Set<string>()
+  for (const absPath of discoverPluginFiles(ctx)) {
+    collectModuleTree(toRealPath(absPath), files)
+  }
+  return [...files]
+}
+
+export async function loadDiscoveredPlugins(ctx: PluginContext): Promise<Plugin[]> {
+  const discoveredFiles = discoverPluginFiles(ctx)
 
-  const discoveredPlugins: Plugin[] = []
+  const loadedFiles: LoadedPluginFile[] = []
+  const entries: PluginReportEntry[] = []
   for (const absPath of discoveredFiles) {
     try {
       const loaded = await evaluatePluginModule(absPath, ctx)
-      discoveredPlugins.push(...loaded)
+      loadedFiles.push(loaded)
+      entries.push(...describeLoadedPlugins('discovered', absPath, loaded.plugins, ctx))
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      const untrusted = (error as NodeJS.ErrnoException | null)?.code === UNTRUSTED_PLUGIN_CODE
+      console.warn(
+        untrusted
+          ? `[plugin-trust] ${reason}`
+          : `[vite-plugins] Failed to load ${basename(absPath)}: ${reason} (see /__plugins)`,
+      )
+      entries.push({
+        kind: 'discovered',
+        name: null,
+        file: absPath,
+        source: toRealPath(absPath),
+        status: untrusted ? 'untrusted' : 'failed',
+        error: describeLoadError(error),
+        routes: [],
+      })
+    }
+  }
+
+  if (ctx.proxies.length > 0) {
+    const registryFile = resolve(APPS_REGISTRY_FILE)
+    try {
+      const plugins = createDeclaredProxyPlugins(ctx.proxies)
+      loadedFiles.push({ file: registryFile, order: 0, enforce: null, plugins })
+      entries.push(...describeLoadedPlugins('discovered', registryFile, plugins, ctx))
     } catch (error) {
       const reason = error instanceof Error ? error.message : String(error)
-      console.warn(`[vite-plugins] Failed to load ${basename(absPath)}: ${reason}`)
+      console.warn(`[vite-plugins] Failed to create proxies declared in ${APPS_REGISTRY_FILE}: ${reason}`)
+      entries.push({
+        kind: 'discovered',
+        name: null,
+        file: registryFile,
+        source: registryFile,
+        status: 'failed',
+        error: describeLoadError(error),
+        routes: [],
+      })
     }
   }
 
-  return [...defaults, ...discoveredPlugins]
+  recordPluginLoad('discovered', ctx.selectedApp, entries)
+  return filterDisabledPlugins(orderPlugins(loadedFiles), ctx)
+}
+
+export async function loadDefaultPlugins(ctx: PluginContext): Promise<Plugin[]> {
+  const defaultPlugins: Plugin[] = []
+  const entries: PluginReportEntry[] = []
+  for (const [file, createPlugin] of DEFAULT_PLUGIN_FACTORIES) {
+    const absPath = resolve(__dirname, file)
+    try {
+      const created = await createPlugin(ctx)
+      const plugins = created ? (Array.isArray(created) ? created : [created]) : []
+      defaultPlugins.push(...plugins)
+      entries.push(...describeLoadedPlugins('default', absPath, plugins, ctx))
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      console.warn(`[vite-plugins] Failed to create default plugin from ${file}: ${reason}`)
+      entries.push({
+        kind: 'default',
+        name: null,
+        file: absPath,
+        source: absPath,
+        status: 'failed',
+        error: describeLoadError(error),
+        routes: [],
+      })
+    }
+  }
+
+  recordPluginLoad('default', ctx.selectedApp, entries)
+  return filterDisabledPlugins(defaultPlugins, ctx)
+}
+
+export async function loadAppPlugins(ctx: PluginContext): Promise<Plugin[]> {
+  return [...(await loadDefaultPlugins(ctx)), ...(await loadDiscoveredPlugins(ctx))]
 }
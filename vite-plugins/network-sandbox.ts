@@ -0,0 +1,246 @@
+import http from 'node:http'
+import https from 'node:https'
+import { resolve } from 'node:path'
+import type { Connect, Plugin } from 'vite'
+import { APP_MANIFEST_FILE, readAppManifest, readNetworkPermissions } from './app-manifest'
+import type { PluginContext } from './types'
+
+export type NetworkSandboxMode = 'warn' | 'block' | 'off'
+
+type Violation = {
+  host: string
+  count: number
+  blocked: number
+  firstSeen: string
+  lastSeen: string
+  lastUrl: string
+}
+
+type SandboxPolicy = {
+  appName: string
+  mode: NetworkSandboxMode
+  allowedHosts: string[]
+}
+
+type SandboxState = {
+  policy: SandboxPolicy | null
+  violations: Map<string, Violation>
+}
+
+type RequestFunction = (...args: unknown[]) => http.ClientRequest
+
+const REPORT_ROUTE = '/__network_sandbox'
+// Shared across config reloads: Vite re-evaluates this module on restart, but
+// fetch/http must only be wrapped once per process.
+const SANDBOX_STATE_KEY = Symbol.for('even-dev.network-sandbox')
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '0.0.0.0'])
+
+function parseMode(value: string | undefined): NetworkSandboxMode {
+  const mode = (value ?? '').trim().toLowerCase()
+  if (mode === 'block' || mode === 'off') return mode
+  if (mode && mode !== 'warn') {
+    console.warn(`[network-sandbox] Unknown NETWORK_SANDBOX="${value}", using "warn"`)
+  }
+  return 'warn'
+}
+
+// Entries are host names (`api.example.com`, `*.example.com`) or origins
+// (`https://api.example.com`).
+export function normalizeHostEntry(entry: string): string {
+  const trimmed = entry.trim().toLowerCase()
+  if (trimmed.includes('://')) {
+    try {
+      return new URL(trimmed).hostname
+    } catch {
+      return trimmed
+    }
+  }
+  return trimmed.split('/')[0]?.replace(/:\d+$/, '') ?? trimmed
+}
+
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((entry) =>
+    entry === '*'
+    || entry === host
+    || (entry.startsWith('*.') && host.endsWith(entry.slice(1))))
+}
+
+function checkOutboundRequest(state: SandboxState, url: string): Error | null {
+  const policy = state.policy
+  if (!policy || policy.mode === 'off') return null
+
+  let host: string
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1')
+  } catch {
+    return null
+  }
+  if (LOOPBACK_HOSTS.has(host) || isHostAllowed(host, policy.allowedHosts)) {
+    return null
+  }
+
+  const blocked = policy.mode === 'block'
+  const now = new Date().toISOString()
+  const violation = state.violations.get(host)
+  if (violation) {
+    violation.count += 1
+    violation.blocked += blocked ? 1 : 0
+    violation.lastSeen = now
+    violation.lastUrl = url
+  } else {
+    state.violations.set(host, { host, count: 1, blocked: blocked ? 1 : 0, firstSeen: now, lastSeen: now, lastUrl: url })
+    console.warn(
+      `[network-sandbox] ${policy.appName}: ${host} is not declared in ${APP_MANIFEST_FILE} network whitelist`
+      + (blocked ? ' (blocked)' : ' (allowed in warn mode)'),
+    )
+  }
+
+  return blocked
+    ? new Error(`Network sandbox blocked ${host}: add it to ${policy.appName}/${APP_MANIFEST_FILE} network whitelist`)
+    : null
+}
+
+function describeClientRequest(request: http.ClientRequest): string {
+  return `${request.protocol}//${request.host}${request.path}`
+}
+
+function installInterceptors(state: SandboxState): void {
+  const originalFetch = globalThis.fetch
+  globalThis.fetch = (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    const error = checkOutboundRequest(state, url)
+    return error ? Promise.reject(error) : originalFetch(input, init)
+  }
+
+  for (const mod of [http, https]) {
+    for (const method of ['request', 'get'] as const) {
+      const original = mod[method] as unknown as RequestFunction
+      const wrapped: RequestFunction = (...args) => {
+        const request = original(...args)
+        const error = checkOutboundRequest(state, describeClientRequest(request))
+        if (error) {
+          // Surfaces through the caller's 'error' listener like a failed connection.
+          request.destroy(error)
+        }
+        return request
+      }
+      Object.assign(mod, { [method]: wrapped })
+    }
+  }
+}
+
+function printViolationSummary(state: SandboxState): void {
+  if (state.violations.size === 0) return
+
+  const appName = state.policy?.appName ?? 'app'
+  console.warn(`[network-sandbox] ${appName}: ${state.violations.size} undeclared host(s) contacted this session:`)
+  for (const violation of state.violations.values()) {
+    console.warn(
+      `  ${violation.host}  ${violation.count} request(s)`
+      + (violation.blocked ? `, ${violation.blocked} blocked` : '')
+      + `  last: ${violation.lastUrl}`,
+    )
+  }
+}
+
+function getSandboxState(): SandboxState {
+  const globals = globalThis as typeof globalThis & { [SANDBOX_STATE_KEY]?: SandboxState }
+  let state = globals[SANDBOX_STATE_KEY]
+  if (!state) {
+    state = { policy: null, violations: new Map() }
+    globals[SANDBOX_STATE_KEY] = state
+    installInterceptors(state)
+    const finalState = state
+    process.once('exit', () => printViolationSummary(finalState))
+  }
+  return state
+}
+
+// A config reload (e.g. /__select_app) creates the plugin again for the next
+// app, which may not enable the sandbox at all: drop the previous app's policy
+// and violations either way. Interceptors stay installed and pass everything.
+function resetSandboxState(): void {
+  const state = (globalThis as typeof globalThis & { [SANDBOX_STATE_KEY]?: SandboxState })[SANDBOX_STATE_KEY]
+  if (state) {
+    state.policy = null
+    state.violations.clear()
+  }
+}
+
+function buildReport(state: SandboxState): Record<string, unknown> {
+  return {
+    app: state.policy?.appName ?? null,
+    mode: state.policy?.mode ?? 'off',
+    allowedHosts: state.policy?.allowedHosts ?? [],
+    violations: [...state.violations.values()].sort((a, b) => b.count - a.count),
+  }
+}
+
+/**
+ * Dev-time sandbox for outbound requests made by the dev server process
+ * (plugin proxies such as restapi, reddit and gutenberg). Hosts that the
+ * selected app's app.json does not declare in its `network` whitelist are
+ * reported (NETWORK_SANDBOX=warn, default) or rejected (NETWORK_SANDBOX=block).
+ * Loopback hosts are always allowed. GET /__network_sandbox returns the
+ * violations seen this session. The check is process-wide and cannot tell
+ * which app's plugin sent a request, so it is off in multi-app mode.
+ */
+export default function networkSandbox(ctx: PluginContext): Plugin | null {
+  resetSandboxState()
+  const mode = parseMode(process.env.NETWORK_SANDBOX)
+  if (!ctx.selectedAppDir || mode === 'off') {
+    return null
+  }
+  if (process.env.MULTI_APP === '1') {
+    console.log('[network-sandbox] Off in multi-app mode: one app\'s network whitelist cannot cover every served app')
+    return null
+  }
+
+  const appDir = ctx.selectedAppDir
+  const manifestFile = resolve(appDir, APP_MANIFEST_FILE)
+
+  const applyPolicy = (state: SandboxState): void => {
+    const manifest = readAppManifest(appDir)?.manifest
+    if (!manifest) {
+      state.policy = null
+      console.warn(`[network-sandbox] ${ctx.selectedApp} has no readable ${APP_MANIFEST_FILE}; outbound requests are not checked`)
+      return
+    }
+    const declared = readNetworkPermissions(manifest) ?? []
+    state.policy = { appName: ctx.selectedApp, mode, allowedHosts: declared.map(normalizeHostEntry) }
+  }
+
+  const handleReport: Connect.NextHandleFunction = (req, res) => {
+    if (req.method !== 'GET') {
+      res.statusCode = 405
+      res.setHeader('content-type', 'text/plain; charset=utf-8')
+      res.end('Method Not Allowed')
+      return
+    }
+
+    res.statusCode = 200
+    res.setHeader('content-type', 'application/json; charset=utf-8')
+    res.end(JSON.stringify(buildReport(getSandboxState()), null, 2))
+  }
+
+  return {
+    name: 'network-sandbox',
+    configureServer(server) {
+      const state = getSandboxState()
+      applyPolicy(state)
+      const onChange = (file: string): void => {
+        if (resolve(file) === manifestFile) {
+          applyPolicy(state)
+        }
+      }
+      server.watcher.add(manifestFile)
+      server.watcher.on('change', onChange)
+      server.httpServer?.once('close', () => server.watcher.off('change', onChange))
+      server.middlewares.use(REPORT_ROUTE, handleReport)
+    },
+    configurePreviewServer(server) {
+      applyPolicy(getSandboxState())
+      server.middlewares.use(REPORT_ROUTE, handleReport)
+    },
+  }
+}
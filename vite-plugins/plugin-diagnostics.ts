@@ -0,0 +1,240 @@
+import type { ServerResponse } from 'node:http'
+import { relative } from 'node:path'
+import type { Connect, Plugin } from 'vite'
+
+export type PluginLoadStatus = 'loaded' | 'disabled' | 'empty' | 'failed' | 'untrusted'
+
+export type PluginReportEntry = {
+  kind: 'default' | 'discovered'
+  // Plugin `name`, or `null` when the file failed or returned no plugin.
+  name: string | null
+  // Path as discovered (often a symlink created by start-even.sh).
+  file: string | null
+  // `file` resolved through symlinks.
+  source: string | null
+  status: PluginLoadStatus
+  error: { message: string; stack: string | null } | null
+  // Middleware routes registered from configureServer/configurePreviewServer.
+  routes: string[]
+}
+
+type PluginReport = {
+  selectedApp: string
+  plugins: PluginReportEntry[]
+  otherApps: Record<string, PluginReportEntry[]>
+}
+
+const REPORT_ROUTE = '/__plugins'
+const SERVER_HOOKS = ['configureServer', 'configurePreviewServer'] as const
+
+let defaultEntries: PluginReportEntry[] = []
+const discoveredEntries = new Map<string, PluginReportEntry[]>()
+
+export function describeLoadError(error: unknown): NonNullable<PluginReportEntry['error']> {
+  return error instanceof Error
+    ? { message: error.message, stack: error.stack ?? null }
+    : { message: String(error), stack: null }
+}
+
+/**
+ * Replaces the recorded default plugins (no app) or the discovered plugins of
+ * one app. Called on every load, so hot reloads and app switches stay current.
+ */
+export function recordPluginLoad(kind: PluginReportEntry['kind'], app: string, entries: PluginReportEntry[]): void {
+  if (kind === 'default') {
+    defaultEntries = entries
+  } else {
+    discoveredEntries.set(app, entries)
+  }
+}
+
+// Wraps the plugin's server hooks so every `server.middlewares.use(route, ...)`
+// (including calls from returned post hooks) is listed under the plugin.
+export function trackPluginRoutes(plugin: Plugin, entry: PluginReportEntry): void {
+  for (const hookName of SERVER_HOOKS) {
+    const hook = plugin[hookName]
+    const handler = typeof hook === 'function' ? hook : hook?.handler
+    if (!handler) continue
+
+    const wrapped = function (this: unknown, server: { middlewares: Connect.Server }) {
+      entry.routes = []
+      const middlewares: Connect.Server = new Proxy(server.middlewares, {
+        get(target, prop, receiver) {
+          if (prop !== 'use') {
+            return Reflect.get(target, prop, receiver)
+          }
+          return (route: string | Connect.HandleFunction, handle?: Connect.HandleFunction) => {
+            const path = typeof route === 'string' ? route : '/'
+            if (!entry.routes.includes(path)) entry.routes.push(path)
+            if (typeof route === 'string' && handle) {
+              target.use(route, handle)
+            } else {
+              target.use(route as Connect.HandleFunction)
+            }
+            return middlewares
+          }
+        },
+      })
+      const tracked = new Proxy(server, {
+        get(target, prop, receiver) {
+          return prop === 'middlewares' ? middlewares : Reflect.get(target, prop, receiver)
+        },
+      })
+      return (handler as (server: unknown) => unknown).call(this, tracked)
+    }
+
+    Object.assign(plugin, {
+      [hookName]: typeof hook === 'function' ? wrapped : { ...hook, handler: wrapped },
+    })
+  }
+}
+
+function buildReport(selectedApp: string): PluginReport {
+  const otherApps: Record<string, PluginReportEntry[]> = {}
+  for (const [app, entries] of discoveredEntries) {
+    if (app !== selectedApp) otherApps[app] = entries
+  }
+  return {
+    selectedApp,
+    plugins: [...defaultEntries, ...(discoveredEntries.get(selectedApp) ?? [])],
+    otherApps,
+  }
+}
+
+function displayPath(path: string | null): string {
+  if (!path) return '-'
+  const rel = relative(process.cwd(), path)
+  return rel.startsWith('..') ? path : rel
+}
+
+function describeSource(entry: PluginReportEntry): string {
+  if (entry.file && entry.source && entry.file !== entry.source) {
+    return `${displayPath(entry.file)} -> ${displayPath(entry.source)}`
+  }
+  return displayPath(entry.source ?? entry.file)
+}
+
+function printReport(report: PluginReport): void {
+  const rows = report.plugins.map((entry) => [
+    entry.status,
+    entry.kind,
+    entry.name ?? '-',
+    describeSource(entry),
+    entry.routes.join(', ') || '-',
+  ])
+  const header = ['status', 'kind', 'plugin', 'source', 'routes']
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)))
+  const format = (row: string[]): string => `  ${row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd()}`
+
+  console.log(`[plugins] ${report.selectedApp || 'no app selected'}: ${report.plugins.length} plugin entr${report.plugins.length === 1 ? 'y' : 'ies'} (details at ${REPORT_ROUTE})`)
+  console.log(format(header))
+  for (const row of rows) {
+    console.log(format(row))
+  }
+  for (const entry of report.plugins) {
+    if (entry.error) {
+      console.warn(`[plugins] ${describeSource(entry)} ${entry.status}: ${entry.error.message}`)
+    }
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderEntryRows(entries: PluginReportEntry[]): string {
+  return entries.map((entry) => {
+    const error = entry.error
+      ? `<details><summary>${escapeHtml(entry.error.message)}</summary><pre>${escapeHtml(entry.error.stack ?? '')}</pre></details>`
+      : ''
+    return `<tr class="${entry.status}">`
+      + `<td>${entry.status}</td><td>${entry.kind}</td><td>${escapeHtml(entry.name ?? '-')}</td>`
+      + `<td><code>${escapeHtml(describeSource(entry))}</code></td>`
+      + `<td>${entry.routes.map((route) => `<code>${escapeHtml(route)}</code>`).join('<br>') || '-'}</td>`
+      + `<td>${error}</td></tr>`
+  }).join('\n      ')
+}
+
+function renderTable(entries: PluginReportEntry[]): string {
+  return `<table>
+    <thead><tr><th>Status</th><th>Kind</th><th>Plugin</th><th>Source</th><th>Routes</th><th>Error</th></tr></thead>
+    <tbody>
+      ${renderEntryRows(entries)}
+    </tbody>
+  </table>`
+}
+
+function renderReportHtml(report: PluginReport): string {
+  const otherApps = Object.entries(report.otherApps)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([app, entries]) => `<h2>${escapeHtml(app)}</h2>\n  ${renderTable(entries)}`)
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="UTF-8" />
+  <title>even-dev plugins</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 24px; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+    tr.failed td:first-child, tr.untrusted td:first-child { color: #b00020; font-weight: bold; }
+    tr.disabled, tr.empty { color: #777; }
+  </style>
+</head>
+<body>
+  <h1>Plugins for ${escapeHtml(report.selectedApp || 'no app selected')}</h1>
+  ${renderTable(report.plugins)}
+  ${otherApps.join('\n  ')}
+</body>
+</html>
+`
+}
+
+function wantsHtml(req: Connect.IncomingMessage): boolean {
+  const format = new URL(req.url ?? '', 'http://localhost').searchParams.get('format')
+  if (format) return format === 'html'
+  return (req.headers.accept ?? '').includes('text/html')
+}
+
+function sendReport(req: Connect.IncomingMessage, res: ServerResponse, report: PluginReport): void {
+  if (req.method !== 'GET') {
+    res.statusCode = 405
+    res.setHeader('content-type', 'text/plain; charset=utf-8')
+    res.end('Method Not Allowed')
+    return
+  }
+
+  res.statusCode = 200
+  if (wantsHtml(req)) {
+    res.setHeader('content-type', 'text/html; charset=utf-8')
+    res.end(renderReportHtml(report))
+    return
+  }
+  res.setHeader('content-type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(report, null, 2))
+}
+
+/**
+ * Serves GET /__plugins (JSON, or HTML for browsers and `?format=html`) with
+ * the default and discovered plugins, where they were loaded from, whether
+ * they loaded, and the middleware routes they registered. A summary table is
+ * printed once the server is listening.
+ */
+export default function pluginDiagnostics(getSelectedApp: () => string): Plugin {
+  return {
+    name: 'plugin-diagnostics',
+    configureServer(server) {
+      server.httpServer?.once('listening', () => printReport(buildReport(getSelectedApp())))
+      server.middlewares.use(REPORT_ROUTE, (req, res) => sendReport(req, res, buildReport(getSelectedApp())))
+    },
+    configurePreviewServer(server) {
+      server.httpServer.once('listening', () => printReport(buildReport(getSelectedApp())))
+      server.middlewares.use(REPORT_ROUTE, (req, res) => sendReport(req, res, buildReport(getSelectedApp())))
+    },
+  }
+}
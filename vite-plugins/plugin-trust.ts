@@ -0,0 +1,337 @@
+import { spawnSync } from 'node:child_process'
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, openSync, readdirSync, readFileSync, realpathSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { dirname, relative, resolve, sep } from 'node:path'
+import { createInterface } from 'node:readline'
+import tty from 'node:tty'
+import { collectLocalInputs } from './esm-loader'
+import { APPS_CACHE_DIR } from './registry'
+import type { PluginContext } from './types'
+
+type TrustedPlugin = {
+  approvedAt: string
+  // Digest over `files`, compared on every load.
+  sha256: string
+  // SHA-256 per file (relative to the app directory) or declared entry.
+  files: Record<string, string>
+}
+
+type TrustStore = {
+  version: number
+  plugins: Record<string, TrustedPlugin>
+}
+
+// Something that needs approval: a plugin with the files it loads, or the
+// commands an app declares.
+type TrustSubject = {
+  key: string
+  // Shown after the key when it has never been approved.
+  summary: string
+  // Heading of the entry list shown with the summary.
+  heading: string
+  // Entries of `contents` listed under the heading; the rest are counted.
+  listed: string[]
+  // Current content per entry: a path relative to the app directory or a label.
+  contents: Map<string, Buffer>
+}
+
+// Approved hashes plus a copy of every approved file, used for diffs.
+const TRUST_DIR = resolve('.even-trust')
+const TRUST_FILE = resolve(TRUST_DIR, 'trust.json')
+const SNAPSHOT_DIR = resolve(TRUST_DIR, 'files')
+const TRUST_STORE_VERSION = 1
+const TRUST_ENV = 'EVEN_TRUST_PLUGINS'
+const MAX_DIFF_LINES = 400
+
+export const UNTRUSTED_PLUGIN_CODE = 'EVEN_UNTRUSTED_PLUGIN'
+
+// Plugins declined in this process, by digest, so reloads do not ask again
+// until the files change.
+const declined = new Map<string, string>()
+
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+function toPosixPath(path: string): string {
+  return path.split(sep).join('/')
+}
+
+function isExternalPath(realPath: string): boolean {
+  return realPath.startsWith(`${APPS_CACHE_DIR}${sep}`)
+}
+
+function isRegularFile(path: string): boolean {
+  try {
+    return statSync(path).isFile()
+  } catch {
+    return false
+  }
+}
+
+// Static imports are only part of what a plugin can run: package `#imports`,
+// `file:` dependencies, computed dynamic imports and the app's postcss or
+// tailwind config all come from the same checkout. So approvals cover every
+// file git tracks or would track there (node_modules and other ignored files
+// are left out), or the whole app directory when it is not a git checkout.
+function listAppSourceFiles(appDir: string): string[] {
+  const root = spawnSync('git', ['-C', appDir, 'rev-parse', '--show-toplevel'], { encoding: 'utf8' })
+  if (!root.error && root.status === 0) {
+    const top = root.stdout.trim()
+    const listed = spawnSync(
+      'git',
+      ['-C', top, 'ls-files', '-z', '--cached', '--others', '--exclude-standard'],
+      { encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 },
+    )
+    if (!listed.error && listed.status === 0) {
+      return [...new Set(listed.stdout.split('\0').filter(Boolean))]
+        .map((file) => resolve(top, file))
+        .filter(isRegularFile)
+    }
+  }
+
+  const files: string[] = []
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name === 'node_modules' || entry.name === '.git') continue
+      const path = resolve(dir, entry.name)
+      if (entry.isDirectory()) walk(path)
+      else if (isRegularFile(path)) files.push(path)
+    }
+  }
+  walk(appDir)
+  return files
+}
+
+function readSources(paths: Iterable<string>, appDir: string): Map<string, Buffer> {
+  const contents = new Map<string, Buffer>()
+  for (const path of paths) {
+    contents.set(toPosixPath(relative(appDir, path)), readFileSync(path))
+  }
+  return contents
+}
+
+function readTrustStore(): TrustStore {
+  if (!existsSync(TRUST_FILE)) {
+    return { version: TRUST_STORE_VERSION, plugins: {} }
+  }
+  const store = JSON.parse(readFileSync(TRUST_FILE, 'utf8')) as TrustStore
+  if (store.version !== TRUST_STORE_VERSION || typeof store.plugins !== 'object' || store.plugins === null) {
+    throw new Error(`${relative(process.cwd(), TRUST_FILE)} has an unsupported format (expected version ${TRUST_STORE_VERSION}).`)
+  }
+  return store
+}
+
+function writeTrustStore(store: TrustStore, snapshots: Map<string, Buffer>): void {
+  mkdirSync(SNAPSHOT_DIR, { recursive: true })
+  for (const [hash, content] of snapshots) {
+    const file = resolve(SNAPSHOT_DIR, hash)
+    if (!existsSync(file)) writeFileSync(file, content)
+  }
+
+  const plugins: Record<string, TrustedPlugin> = {}
+  for (const key of Object.keys(store.plugins).sort()) {
+    plugins[key] = store.plugins[key] as TrustedPlugin
+  }
+  writeFileSync(TRUST_FILE, `${JSON.stringify({ version: TRUST_STORE_VERSION, plugins }, null, 2)}\n`)
+
+  // Drop copies that no approval refers to any more.
+  const referenced = new Set(Object.values(plugins).flatMap((plugin) => Object.values(plugin.files)))
+  for (const name of readdirSync(SNAPSHOT_DIR)) {
+    if (!referenced.has(name)) rmSync(resolve(SNAPSHOT_DIR, name), { force: true })
+  }
+}
+
+function isApprovedByEnv(appName: string): boolean {
+  const value = (process.env[TRUST_ENV] ?? '').trim()
+  if (!value) return false
+  if (['1', 'true', 'all', '*'].includes(value.toLowerCase())) return true
+  return value.split(',').map((name) => name.trim()).includes(appName)
+}
+
+function diffFiles(label: string, approvedFile: string, current: Buffer): string[] {
+  const result = spawnSync(
+    'diff',
+    ['-u', '--label', `approved/${label}`, '--label', `current/${label}`, approvedFile, '-'],
+    { input: current, encoding: 'utf8', maxBuffer: 16 * 1024 * 1024 },
+  )
+  // diff exits 1 when the files differ.
+  if (result.error || result.status === 2) {
+    return [`  ${label}: changed (diff unavailable)`]
+  }
+  return result.stdout.trimEnd().split('\n')
+}
+
+function describeChanges(
+  subject: TrustSubject,
+  approved: TrustedPlugin | undefined,
+  files: Record<string, string>,
+  appDir: string,
+): string[] {
+  const { key } = subject
+  if (!approved) {
+    const listed = subject.listed.map((entry) => `    ${entry}  sha256:${files[entry]?.slice(0, 12)}`)
+    const others = Object.keys(files).length - listed.length
+    return [
+      `[plugin-trust] ${key} ${subject.summary}`,
+      `  ${subject.heading}:`,
+      ...listed,
+      ...(others > 0 ? [`  Approval also covers the other ${others} source file${others === 1 ? '' : 's'} of the app.`] : []),
+      `  Review them in ${appDir} before approving.`,
+    ]
+  }
+
+  const lines = [`[plugin-trust] ${key} changed since it was approved on ${approved.approvedAt}:`]
+  for (const [file, hash] of Object.entries(files)) {
+    const approvedHash = approved.files[file]
+    if (approvedHash === hash) continue
+    if (!approvedHash) {
+      lines.push(`  new file: ${file}`)
+      continue
+    }
+    const snapshot = resolve(SNAPSHOT_DIR, approvedHash)
+    lines.push(...(existsSync(snapshot)
+      ? diffFiles(file, snapshot, subject.contents.get(file) ?? Buffer.alloc(0))
+      : [`  ${file}: changed (no approved copy to diff against)`]))
+  }
+  for (const file of Object.keys(approved.files)) {
+    if (!(file in files)) lines.push(`  removed: ${file}`)
+  }
+
+  if (lines.length > MAX_DIFF_LINES) {
+    return [...lines.slice(0, MAX_DIFF_LINES), `  ... ${lines.length - MAX_DIFF_LINES} more lines`]
+  }
+  return lines
+}
+
+// Vite usually runs in the background of start-even.sh, so ask on the
+// controlling terminal instead of stdin. Returns null without a terminal.
+async function askOnTerminal(question: string): Promise<string | null> {
+  if (process.platform === 'win32' || process.env.CI) {
+    return null
+  }
+
+  let input: tty.ReadStream
+  let output: tty.WriteStream
+  try {
+    input = new tty.ReadStream(openSync('/dev/tty', 'r'))
+    output = new tty.WriteStream(openSync('/dev/tty', 'w'))
+  } catch {
+    return null
+  }
+
+  const rl = createInterface({ input, output, terminal: false })
+  try {
+    return await new Promise<string>((resolveAnswer) => rl.question(question, resolveAnswer))
+  } finally {
+    rl.close()
+    input.destroy()
+    output.destroy()
+  }
+}
+
+function untrustedPluginError(appName: string, key: string): Error {
+  return Object.assign(
+    new Error(
+      `${key} is not approved; review it and run ./start-even.sh ${appName} --trust-plugins `
+      + `(or set ${TRUST_ENV}=${appName})`,
+    ),
+    { code: UNTRUSTED_PLUGIN_CODE },
+  )
+}
+
+// Shared by plugins and declared commands: compares the subject's hashes with
+// the approved ones and asks for approval when they differ.
+async function requireApproval(subject: TrustSubject, appName: string, appDir: string): Promise<void> {
+  const { key } = subject
+  const files: Record<string, string> = {}
+  const snapshots = new Map<string, Buffer>()
+  for (const [entry, content] of subject.contents) {
+    const hash = sha256(content)
+    files[entry] = hash
+    snapshots.set(hash, content)
+  }
+  const digest = sha256(
+    Object.entries(files)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, hash]) => `${hash}  ${file}\n`)
+      .join(''),
+  )
+
+  const store = readTrustStore()
+  const approved = store.plugins[key]
+  if (approved?.sha256 === digest) {
+    return
+  }
+  if (declined.get(key) === digest) {
+    throw untrustedPluginError(appName, key)
+  }
+
+  console.warn(describeChanges(subject, approved, files, appDir).join('\n'))
+
+  let approvedBy: string | null = isApprovedByEnv(appName) ? TRUST_ENV : null
+  if (!approvedBy) {
+    const answer = await askOnTerminal(`[plugin-trust] Run ${key}? [y/N]: `)
+    approvedBy = answer && /^y(es)?$/i.test(answer.trim()) ? 'prompt' : null
+  }
+  if (!approvedBy) {
+    declined.set(key, digest)
+    throw untrustedPluginError(appName, key)
+  }
+
+  store.plugins[key] = { approvedAt: new Date().toISOString(), sha256: digest, files }
+  writeTrustStore(store, snapshots)
+  declined.delete(key)
+  console.log(`[plugin-trust] Approved ${key} (${approvedBy === 'prompt' ? 'terminal prompt' : approvedBy})`)
+}
+
+/**
+ * Checks a plugin file from `.apps-cache/`, every local file it imports and
+ * the rest of the app's sources (see listAppSourceFiles) against the approved
+ * SHA-256 hashes in `.even-trust/trust.json` before it is executed. New or changed plugins are shown (with a diff against the last
+ * approved copy) and need approval through the terminal prompt,
+ * EVEN_TRUST_PLUGINS=<app>|all or `./start-even.sh <app> --trust-plugins`;
+ * otherwise this throws an error with code UNTRUSTED_PLUGIN_CODE.
+ */
+export async function verifyPluginTrust(realPath: string, ctx: PluginContext): Promise<void> {
+  if (!isExternalPath(realPath)) {
+    return
+  }
+
+  const appDir = ctx.selectedAppDir ?? dirname(realPath)
+  const loaded = await collectLocalInputs(realPath)
+  const contents = readSources(new Set([...loaded, ...listAppSourceFiles(appDir)]), appDir)
+  await requireApproval({
+    key: `${ctx.selectedApp}/${toPosixPath(relative(appDir, realPath))}`,
+    summary: 'is an external plugin that has not been approved yet. It runs with full Node.js access.',
+    heading: 'Files it loads',
+    listed: loaded.map((file) => toPosixPath(relative(appDir, file))),
+    contents,
+  }, ctx.selectedApp, appDir)
+}
+
+/**
+ * Same approval for shell commands that a `.apps-cache/` app declares in its
+ * own files (`label` names where, e.g. `app.json#appServers`). `entries` maps
+ * each declaration to its text; any change needs a new approval. Commands of
+ * local apps are not checked.
+ */
+export async function verifyCommandTrust(label: string, entries: Record<string, string>, ctx: PluginContext): Promise<void> {
+  const appDir = ctx.selectedAppDir
+  if (!appDir || Object.keys(entries).length === 0 || !isExternalPath(realpathSync(appDir))) {
+    return
+  }
+
+  // The commands run the app's own scripts, so its sources are covered too.
+  const contents = readSources(listAppSourceFiles(appDir), appDir)
+  for (const [entry, text] of Object.entries(entries)) {
+    contents.set(entry, Buffer.from(`${text}\n`))
+  }
+  await requireApproval({
+    key: `${ctx.selectedApp}/${label}`,
+    summary: 'declares commands that have not been approved yet. They run in a shell with your user\'s access.',
+    heading: 'Commands it declares',
+    listed: Object.keys(entries),
+    contents,
+  }, ctx.selectedApp, appDir)
+}
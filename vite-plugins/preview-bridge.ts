@@ -0,0 +1,45 @@
+import type { Plugin, PreviewServer, ViteDevServer } from 'vite'
+
+type ServerHook = (server: ViteDevServer) => void | (() => void) | Promise<void | (() => void)>
+
+function getServerHook(plugin: Plugin): ServerHook | null {
+  const hook = plugin.configureServer
+  if (!hook) return null
+  return (typeof hook === 'function' ? hook : hook.handler) as ServerHook
+}
+
+/**
+ * Runs the `configureServer` hooks of even-dev and app plugins against the
+ * preview server, so `vite preview` serves the built app with the same proxy
+ * and asset middlewares as the dev server. Only the connect middleware stack
+ * and http server are shared; dev-only APIs (ws, moduleGraph, ...) are not.
+ */
+export default function previewBridge(plugins: Plugin[]): Plugin {
+  return {
+    name: 'preview-bridge',
+    async configurePreviewServer(server: PreviewServer) {
+      const postHooks: Array<() => void> = []
+      for (const plugin of plugins) {
+        if (plugin.configurePreviewServer) continue
+        const hook = getServerHook(plugin)
+        if (!hook) continue
+
+        try {
+          const post = await hook(server as unknown as ViteDevServer)
+          if (typeof post === 'function') {
+            postHooks.push(post)
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error)
+          console.warn(`[preview-bridge] ${plugin.name} could not be attached to the preview server: ${reason}`)
+        }
+      }
+
+      return () => {
+        for (const post of postHooks) {
+          post()
+        }
+      }
+    },
+  }
+}
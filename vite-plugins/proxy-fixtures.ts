@@ -0,0 +1,262 @@
+import { createHash } from 'node:crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, relative, resolve } from 'node:path'
+import type { Connect, Plugin } from 'vite'
+
+export type ProxyMode = 'passthrough' | 'record' | 'replay'
+
+export type ProxyFixtureRequest = {
+  method: string
+  url: URL
+  // Buffered request body, or null for requests without one.
+  body: Buffer | null
+}
+
+type ProxyFixture = {
+  request: { method: string; url: string; bodySha256: string | null }
+  response: {
+    status: number
+    headers: Array<[string, string]>
+    body: string
+    bodyEncoding: 'utf8' | 'base64'
+  }
+  recordedAt: string
+}
+
+type MissingFixture = {
+  method: string
+  url: string
+  bodySha256: string | null
+  fixture: string
+  count: number
+}
+
+type FixtureState = {
+  recorded: number
+  replayed: number
+  missing: Map<string, MissingFixture>
+}
+
+const REPORT_ROUTE = '/__proxy_fixtures'
+const DEFAULT_FIXTURES_DIR = 'proxy-fixtures'
+const MAX_SLUG_LENGTH = 60
+// Not stored: connection-level headers (the proxy drops them anyway) and
+// `date`, which would change every fixture on each re-recording.
+const UNRECORDED_HEADERS = new Set([
+  'connection',
+  'content-encoding',
+  'content-length',
+  'date',
+  'keep-alive',
+  'transfer-encoding',
+])
+// Shared across config reloads so the exit summary covers the whole session.
+const FIXTURE_STATE_KEY = Symbol.for('even-dev.proxy-fixtures')
+
+export const MISSING_FIXTURE_CODE = 'EVEN_PROXY_FIXTURE_MISSING'
+
+function parseMode(value: string | undefined): ProxyMode {
+  const mode = (value ?? '').trim().toLowerCase()
+  if (mode === 'record' || mode === 'replay') return mode
+  if (mode && mode !== 'passthrough') {
+    console.warn(`[proxy-fixtures] Unknown PROXY_MODE="${value}", using "passthrough"`)
+  }
+  return 'passthrough'
+}
+
+export function getProxyMode(): ProxyMode {
+  return parseMode(process.env.PROXY_MODE)
+}
+
+function getFixturesDir(): string {
+  return resolve(process.env.PROXY_FIXTURES_DIR || DEFAULT_FIXTURES_DIR)
+}
+
+function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+function displayPath(path: string): string {
+  const rel = relative(process.cwd(), path)
+  return rel.startsWith('..') ? path : rel
+}
+
+// <dir>/<host>/<METHOD><path-and-query slug>-<hash>.json; the hash covers
+// method, full URL and body, the slug only keeps file names readable.
+function getFixtureFile(request: ProxyFixtureRequest, bodySha256: string | null): string {
+  const hash = sha256(`${request.method} ${request.url.href}\n${bodySha256 ?? ''}`).slice(0, 12)
+  const slug = `${request.url.pathname}${request.url.search}`
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .slice(0, MAX_SLUG_LENGTH)
+  return resolve(getFixturesDir(), request.url.host.replace(/:/g, '_'), `${request.method}${slug}-${hash}.json`)
+}
+
+function isTextContentType(contentType: string | null): boolean {
+  return Boolean(contentType && /^text\/|[/+](json|xml|javascript)|charset=/i.test(contentType))
+}
+
+function readResponseHeaders(response: Response): Array<[string, string]> {
+  const headers: Array<[string, string]> = []
+  response.headers.forEach((value, name) => {
+    if (name !== 'set-cookie' && !UNRECORDED_HEADERS.has(name)) headers.push([name, value])
+  })
+  for (const cookie of response.headers.getSetCookie()) {
+    headers.push(['set-cookie', cookie])
+  }
+  return headers
+}
+
+// Statuses that must not carry a body in the Response constructor.
+function hasNullBody(status: number): boolean {
+  return status === 101 || status === 204 || status === 205 || status === 304
+}
+
+function toResponse(fixture: ProxyFixture): Response {
+  const { status, headers, body, bodyEncoding } = fixture.response
+  const content = Buffer.from(body, bodyEncoding)
+  return new Response(hasNullBody(status) ? null : content, { status, headers })
+}
+
+function getFixtureState(): FixtureState {
+  const globals = globalThis as typeof globalThis & { [FIXTURE_STATE_KEY]?: FixtureState }
+  let state = globals[FIXTURE_STATE_KEY]
+  if (!state) {
+    state = { recorded: 0, replayed: 0, missing: new Map() }
+    globals[FIXTURE_STATE_KEY] = state
+    const finalState = state
+    process.once('exit', () => printMissingSummary(finalState))
+  }
+  return state
+}
+
+function recordMissing(state: FixtureState, request: ProxyFixtureRequest, bodySha256: string | null, file: string): void {
+  const key = displayPath(file)
+  const missing = state.missing.get(key)
+  if (missing) {
+    missing.count += 1
+    return
+  }
+  state.missing.set(key, { method: request.method, url: request.url.href, bodySha256, fixture: key, count: 1 })
+  console.warn(`[proxy-fixtures] No fixture for ${request.method} ${request.url.href} (expected ${key})`)
+}
+
+function printMissingSummary(state: FixtureState): void {
+  if (state.missing.size === 0) return
+
+  console.warn(`[proxy-fixtures] ${state.missing.size} request(s) had no fixture this session; record them with PROXY_MODE=record:`)
+  for (const missing of state.missing.values()) {
+    console.warn(`  ${missing.method} ${missing.url}  ${missing.count} request(s)`)
+  }
+}
+
+async function writeFixture(file: string, request: ProxyFixtureRequest, bodySha256: string | null, response: Response): Promise<Response> {
+  const content = Buffer.from(await response.arrayBuffer())
+  const bodyEncoding = isTextContentType(response.headers.get('content-type')) ? 'utf8' : 'base64'
+  const fixture: ProxyFixture = {
+    request: { method: request.method, url: request.url.href, bodySha256 },
+    response: {
+      status: response.status,
+      headers: readResponseHeaders(response),
+      body: content.toString(bodyEncoding),
+      bodyEncoding,
+    },
+    recordedAt: new Date().toISOString(),
+  }
+
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`)
+  console.log(`[proxy-fixtures] Recorded ${request.method} ${request.url.href} -> ${displayPath(file)}`)
+  return toResponse(fixture)
+}
+
+/**
+ * Runs one upstream request according to PROXY_MODE: `passthrough` calls
+ * `fetchLive`, `record` calls it and stores the response as a fixture, and
+ * `replay` serves the stored fixture without touching the network. A replay
+ * without a fixture is reported and rejects with MISSING_FIXTURE_CODE.
+ */
+export async function fetchWithFixtures(
+  request: ProxyFixtureRequest,
+  fetchLive: () => Promise<Response>,
+): Promise<Response> {
+  const mode = getProxyMode()
+  if (mode === 'passthrough') {
+    return fetchLive()
+  }
+
+  const state = getFixtureState()
+  const bodySha256 = request.body && request.body.length > 0 ? sha256(request.body) : null
+  const file = getFixtureFile(request, bodySha256)
+
+  if (mode === 'record') {
+    const response = await writeFixture(file, request, bodySha256, await fetchLive())
+    state.recorded += 1
+    return response
+  }
+
+  if (!existsSync(file)) {
+    recordMissing(state, request, bodySha256, file)
+    throw Object.assign(
+      new Error(`no fixture for ${request.method} ${request.url.href} (PROXY_MODE=replay); record it with PROXY_MODE=record`),
+      { code: MISSING_FIXTURE_CODE },
+    )
+  }
+  state.replayed += 1
+  return toResponse(JSON.parse(readFileSync(file, 'utf8')) as ProxyFixture)
+}
+
+function buildReport(mode: ProxyMode): Record<string, unknown> {
+  const state = getFixtureState()
+  return {
+    mode,
+    dir: displayPath(getFixturesDir()),
+    recorded: state.recorded,
+    replayed: state.replayed,
+    missing: [...state.missing.values()].sort((a, b) => b.count - a.count),
+  }
+}
+
+/**
+ * Reports PROXY_MODE at startup and serves GET /__proxy_fixtures with the
+ * fixture directory, how many responses were recorded or replayed and the
+ * requests that had no fixture. Not loaded in passthrough mode.
+ */
+export default function proxyFixtures(): Plugin | null {
+  const mode = getProxyMode()
+  if (mode === 'passthrough') {
+    return null
+  }
+
+  const handleReport: Connect.NextHandleFunction = (req, res) => {
+    if (req.method !== 'GET') {
+      res.statusCode = 405
+      res.setHeader('content-type', 'text/plain; charset=utf-8')
+      res.end('Method Not Allowed')
+      return
+    }
+
+    res.statusCode = 200
+    res.setHeader('content-type', 'application/json; charset=utf-8')
+    res.end(JSON.stringify(buildReport(mode), null, 2))
+  }
+
+  const announce = (): void => {
+    console.log(
+      mode === 'record'
+        ? `[proxy-fixtures] Recording proxy responses to ${displayPath(getFixturesDir())}/`
+        : `[proxy-fixtures] Replaying proxy responses from ${displayPath(getFixturesDir())}/ (no network)`,
+    )
+  }
+
+  return {
+    name: 'proxy-fixtures',
+    configureServer(server) {
+      announce()
+      server.middlewares.use(REPORT_ROUTE, handleReport)
+    },
+    configurePreviewServer(server) {
+      announce()
+      server.middlewares.use(REPORT_ROUTE, handleReport)
+    },
+  }
+}
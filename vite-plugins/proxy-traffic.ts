@@ -0,0 +1,445 @@
+import { STATUS_CODES } from 'node:http'
+import type { IncomingHttpHeaders, OutgoingHttpHeaders, ServerResponse } from 'node:http'
+import { Transform } from 'node:stream'
+import type { Readable } from 'node:stream'
+import type { Connect, Plugin } from 'vite'
+
+type CapturedBody = {
+  // Full body size in bytes.
+  size: number
+  // The first `bodyLimit` bytes.
+  content: Buffer
+}
+
+type TrafficEntry = {
+  id: number
+  proxy: string
+  startedAt: number
+  method: string
+  // Dev server URL as requested by the client.
+  url: string
+  upstreamUrl: string | null
+  requestHeaders: Array<[string, string]>
+  requestBody: CapturedBody
+  status: number
+  responseHeaders: Array<[string, string]>
+  responseBody: CapturedBody
+  timings: { wait: number; receive: number }
+  error: string | null
+}
+
+type TrafficState = {
+  nextId: number
+  entries: TrafficEntry[]
+}
+
+export type ProxyExchange = {
+  setUpstream(url: URL): void
+  // Upstream response headers arrived (ends the `wait` timing).
+  responseStarted(): void
+  setRequestBody(body: Buffer): void
+  // Passes a streamed request body through while capturing it.
+  tapRequestBody(source: Readable): Readable
+  fail(message: string): void
+}
+
+const TRAFFIC_ROUTE = '/__traffic'
+const DEFAULT_LOG_LIMIT = 500
+const DEFAULT_BODY_LIMIT = 64 * 1024
+// Shared across config reloads so a restart keeps the log.
+const TRAFFIC_STATE_KEY = Symbol.for('even-dev.proxy-traffic')
+// Credentials are never kept in the log, so /__traffic and HAR exports are
+// safe to share.
+const REDACTED_HEADERS = new Set(['authorization', 'cookie', 'proxy-authorization', 'set-cookie'])
+const REDACTED_VALUE = '[redacted]'
+
+function readLimit(name: string, fallback: number): number {
+  const value = process.env[name]
+  if (value === undefined || value.trim() === '') return fallback
+  const limit = Number(value)
+  if (!Number.isInteger(limit) || limit < 0) {
+    console.warn(`[proxy-traffic] Ignoring ${name}="${value}" (expected a non-negative integer), using ${fallback}`)
+    return fallback
+  }
+  return limit
+}
+
+function getLogLimit(): number {
+  return readLimit('TRAFFIC_LOG_LIMIT', DEFAULT_LOG_LIMIT)
+}
+
+function getBodyLimit(): number {
+  return readLimit('TRAFFIC_BODY_LIMIT', DEFAULT_BODY_LIMIT)
+}
+
+function getTrafficState(): TrafficState {
+  const globals = globalThis as typeof globalThis & { [TRAFFIC_STATE_KEY]?: TrafficState }
+  let state = globals[TRAFFIC_STATE_KEY]
+  if (!state) {
+    state = { nextId: 1, entries: [] }
+    globals[TRAFFIC_STATE_KEY] = state
+  }
+  return state
+}
+
+function toHeaderList(headers: IncomingHttpHeaders | OutgoingHttpHeaders): Array<[string, string]> {
+  const list: Array<[string, string]> = []
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue
+    for (const item of Array.isArray(value) ? value : [value]) {
+      list.push([name, REDACTED_HEADERS.has(name.toLowerCase()) ? REDACTED_VALUE : String(item)])
+    }
+  }
+  return list
+}
+
+function createBodyCapture(limit: number) {
+  const chunks: Buffer[] = []
+  let size = 0
+  let captured = 0
+  return {
+    add(chunk: unknown, encoding?: unknown): void {
+      if (typeof chunk !== 'string' && !(chunk instanceof Uint8Array)) return
+      const buffer = typeof chunk === 'string'
+        ? Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf8')
+        : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+      size += buffer.length
+      if (captured < limit) {
+        const part = buffer.subarray(0, limit - captured)
+        chunks.push(Buffer.from(part))
+        captured += part.length
+      }
+    },
+    result(): CapturedBody {
+      return { size, content: Buffer.concat(chunks) }
+    },
+  }
+}
+
+/**
+ * Starts a traffic log entry for one proxied request. The response status,
+ * headers and body are taken from `res` as it is written; the entry is added
+ * to the log when the response closes. Does nothing when TRAFFIC_LOG_LIMIT=0.
+ */
+export function trackProxyExchange(proxy: string, req: Connect.IncomingMessage, res: ServerResponse): ProxyExchange {
+  const logLimit = getLogLimit()
+  const bodyLimit = getBodyLimit()
+  const startedAt = Date.now()
+  const requestBody = createBodyCapture(bodyLimit)
+  const responseBody = createBodyCapture(bodyLimit)
+  let upstreamUrl: string | null = null
+  let responseStartedAt: number | null = null
+  let error: string | null = null
+
+  if (logLimit > 0) {
+    const write = res.write.bind(res) as (...args: unknown[]) => boolean
+    const end = res.end.bind(res) as (...args: unknown[]) => ServerResponse
+    res.write = ((...args: unknown[]) => {
+      responseBody.add(args[0], args[1])
+      return write(...args)
+    }) as ServerResponse['write']
+    res.end = ((...args: unknown[]) => {
+      responseBody.add(args[0], args[1])
+      return end(...args)
+    }) as ServerResponse['end']
+
+    res.once('close', () => {
+      const closedAt = Date.now()
+      const state = getTrafficState()
+      const originalUrl = (req as Connect.IncomingMessage & { originalUrl?: string }).originalUrl ?? req.url ?? '/'
+      state.entries.push({
+        id: state.nextId++,
+        proxy,
+        startedAt,
+        method: (req.method ?? 'GET').toUpperCase(),
+        url: `http://${req.headers.host ?? 'localhost'}${originalUrl}`,
+        upstreamUrl,
+        requestHeaders: toHeaderList(req.headers),
+        requestBody: requestBody.result(),
+        status: res.statusCode,
+        responseHeaders: toHeaderList(res.getHeaders()),
+        responseBody: responseBody.result(),
+        timings: {
+          wait: (responseStartedAt ?? closedAt) - startedAt,
+          receive: responseStartedAt === null ? 0 : closedAt - responseStartedAt,
+        },
+        error: error ?? (res.writableFinished ? null : 'connection closed before the response finished'),
+      })
+      state.entries.splice(0, Math.max(0, state.entries.length - logLimit))
+    })
+  }
+
+  return {
+    setUpstream(url) {
+      upstreamUrl = url.href
+    },
+    responseStarted() {
+      responseStartedAt = Date.now()
+    },
+    setRequestBody(body) {
+      requestBody.add(body)
+    },
+    tapRequestBody(source) {
+      const tap = new Transform({
+        transform(chunk, encoding, callback) {
+          requestBody.add(chunk, encoding)
+          callback(null, chunk)
+        },
+      })
+      source.on('error', (sourceError) => tap.destroy(sourceError))
+      return source.pipe(tap)
+    },
+    fail(message) {
+      error = message
+    },
+  }
+}
+
+function findHeader(headers: Array<[string, string]>, name: string): string {
+  return headers.find(([key]) => key.toLowerCase() === name)?.[1] ?? ''
+}
+
+function isTextContentType(contentType: string): boolean {
+  return contentType === '' || /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)|charset=/i.test(contentType)
+}
+
+function toHarHeaders(headers: Array<[string, string]>): Array<{ name: string; value: string }> {
+  return headers.map(([name, value]) => ({ name, value }))
+}
+
+function describeTruncation(body: CapturedBody): string | undefined {
+  return body.content.length < body.size ? `truncated to ${body.content.length} of ${body.size} bytes (TRAFFIC_BODY_LIMIT)` : undefined
+}
+
+// The request as sent upstream; requests rejected before that keep the dev
+// server URL.
+function toHarEntry(entry: TrafficEntry): Record<string, unknown> {
+  const url = new URL(entry.upstreamUrl ?? entry.url)
+  const requestType = findHeader(entry.requestHeaders, 'content-type')
+  const responseType = findHeader(entry.responseHeaders, 'content-type')
+  const responseIsText = isTextContentType(responseType)
+
+  return {
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: entry.timings.wait + entry.timings.receive,
+    request: {
+      method: entry.method,
+      url: url.href,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.requestHeaders),
+      queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+      ...(entry.requestBody.size > 0
+        ? {
+            postData: {
+              mimeType: requestType,
+              text: entry.requestBody.content.toString(isTextContentType(requestType) ? 'utf8' : 'base64'),
+              comment: [isTextContentType(requestType) ? undefined : 'base64', describeTruncation(entry.requestBody)]
+                .filter(Boolean).join('; ') || undefined,
+            },
+          }
+        : {}),
+      headersSize: -1,
+      bodySize: entry.requestBody.size,
+    },
+    response: {
+      status: entry.status,
+      statusText: STATUS_CODES[entry.status] ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHarHeaders(entry.responseHeaders),
+      content: {
+        size: entry.responseBody.size,
+        mimeType: responseType,
+        text: entry.responseBody.content.toString(responseIsText ? 'utf8' : 'base64'),
+        ...(responseIsText ? {} : { encoding: 'base64' }),
+        comment: describeTruncation(entry.responseBody),
+      },
+      redirectURL: findHeader(entry.responseHeaders, 'location'),
+      headersSize: -1,
+      bodySize: entry.responseBody.size,
+    },
+    cache: {},
+    timings: { send: 0, wait: entry.timings.wait, receive: entry.timings.receive },
+    _proxy: entry.proxy,
+    _devServerUrl: entry.url,
+    _error: entry.error,
+  }
+}
+
+function buildHar(entries: TrafficEntry[]): Record<string, unknown> {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'even-dev', version: '1.0' },
+      entries: entries.map(toHarEntry),
+    },
+  }
+}
+
+type HostSummary = {
+  host: string
+  requests: number
+  errors: number
+  bytesSent: number
+  bytesReceived: number
+  totalTime: number
+}
+
+// Per upstream host, to see how chatty an app is.
+function buildSummary(entries: TrafficEntry[]) {
+  const hosts = new Map<string, HostSummary>()
+  for (const entry of entries) {
+    const host = entry.upstreamUrl ? new URL(entry.upstreamUrl).host : '(rejected)'
+    const summary = hosts.get(host) ?? { host, requests: 0, errors: 0, bytesSent: 0, bytesReceived: 0, totalTime: 0 }
+    summary.requests += 1
+    summary.errors += entry.status >= 400 || entry.error ? 1 : 0
+    summary.bytesSent += entry.requestBody.size
+    summary.bytesReceived += entry.responseBody.size
+    summary.totalTime += entry.timings.wait + entry.timings.receive
+    hosts.set(host, summary)
+  }
+
+  const first = entries[0]?.startedAt ?? 0
+  const last = entries[entries.length - 1]?.startedAt ?? 0
+  const minutes = (last - first) / 60_000
+  return {
+    requests: entries.length,
+    bytesSent: entries.reduce((total, entry) => total + entry.requestBody.size, 0),
+    bytesReceived: entries.reduce((total, entry) => total + entry.responseBody.size, 0),
+    // Only meaningful once the log covers a minute or more.
+    requestsPerMinute: minutes >= 1 ? Math.round((entries.length / minutes) * 10) / 10 : null,
+    hosts: [...hosts.values()].sort((a, b) => b.requests - a.requests),
+  }
+}
+
+function describeEntry(entry: TrafficEntry): Record<string, unknown> {
+  return {
+    id: entry.id,
+    proxy: entry.proxy,
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    method: entry.method,
+    url: entry.url,
+    upstreamUrl: entry.upstreamUrl,
+    status: entry.status,
+    requestSize: entry.requestBody.size,
+    responseSize: entry.responseBody.size,
+    timings: entry.timings,
+    error: entry.error,
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function renderTrafficHtml(entries: TrafficEntry[]): string {
+  const summary = buildSummary(entries)
+  const hostRows = summary.hosts.map((host) =>
+    `<tr><td>${escapeHtml(host.host)}</td><td>${host.requests}</td><td>${host.errors}</td>`
+    + `<td>${formatBytes(host.bytesSent)}</td><td>${formatBytes(host.bytesReceived)}</td>`
+    + `<td>${Math.round(host.totalTime / host.requests)} ms</td></tr>`).join('\n      ')
+  const entryRows = [...entries].reverse().map((entry) =>
+    `<tr class="${entry.status >= 400 || entry.error ? 'failed' : ''}">`
+    + `<td>${new Date(entry.startedAt).toLocaleTimeString()}</td><td>${escapeHtml(entry.proxy)}</td>`
+    + `<td>${entry.method}</td><td><code>${escapeHtml(entry.upstreamUrl ?? entry.url)}</code></td>`
+    + `<td>${entry.status}</td><td>${formatBytes(entry.responseBody.size)}</td>`
+    + `<td>${entry.timings.wait + entry.timings.receive} ms</td><td>${escapeHtml(entry.error ?? '')}</td></tr>`).join('\n      ')
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="UTF-8" />
+  <title>even-dev proxy traffic</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 24px; }
+    table { border-collapse: collapse; margin-bottom: 24px; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+    tr.failed td { color: #b00020; }
+  </style>
+</head>
+<body>
+  <h1>Proxy traffic</h1>
+  <p>${summary.requests} request(s), ${formatBytes(summary.bytesSent)} sent, ${formatBytes(summary.bytesReceived)} received`
+    + `${summary.requestsPerMinute === null ? '' : `, ${summary.requestsPerMinute} requests/min`}.`
+    + ` <a href="${TRAFFIC_ROUTE}?format=har">Download HAR</a></p>
+  <table>
+    <thead><tr><th>Upstream host</th><th>Requests</th><th>Errors</th><th>Sent</th><th>Received</th><th>Avg time</th></tr></thead>
+    <tbody>
+      ${hostRows}
+    </tbody>
+  </table>
+  <table>
+    <thead><tr><th>Time</th><th>Proxy</th><th>Method</th><th>URL</th><th>Status</th><th>Size</th><th>Duration</th><th>Error</th></tr></thead>
+    <tbody>
+      ${entryRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`
+}
+
+function handleTraffic(req: Connect.IncomingMessage, res: ServerResponse): void {
+  const state = getTrafficState()
+  if (req.method === 'DELETE') {
+    state.entries = []
+    res.statusCode = 204
+    res.end()
+    return
+  }
+  if (req.method !== 'GET') {
+    res.statusCode = 405
+    res.setHeader('content-type', 'text/plain; charset=utf-8')
+    res.end('Method Not Allowed')
+    return
+  }
+
+  const format = new URL(req.url ?? '', 'http://localhost').searchParams.get('format')
+    ?? ((req.headers.accept ?? '').includes('text/html') ? 'html' : 'json')
+  res.statusCode = 200
+  if (format === 'har') {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    res.setHeader('content-type', 'application/json; charset=utf-8')
+    res.setHeader('content-disposition', `attachment; filename="even-dev-traffic-${stamp}.har"`)
+    res.end(JSON.stringify(buildHar(state.entries), null, 2))
+    return
+  }
+  if (format === 'html') {
+    res.setHeader('content-type', 'text/html; charset=utf-8')
+    res.end(renderTrafficHtml(state.entries))
+    return
+  }
+  res.setHeader('content-type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify({ summary: buildSummary(state.entries), entries: state.entries.map(describeEntry) }, null, 2))
+}
+
+/**
+ * Serves the in-memory log of requests that went through proxies built with
+ * createProxyPlugin: GET /__traffic (JSON summary and entries, HTML in a
+ * browser), ?format=har for a HAR 1.2 export with bodies up to
+ * TRAFFIC_BODY_LIMIT bytes, and DELETE /__traffic to clear it. The log keeps
+ * the last TRAFFIC_LOG_LIMIT requests, with cookie and authorization headers
+ * redacted.
+ */
+export default function proxyTraffic(): Plugin {
+  return {
+    name: 'proxy-traffic',
+    configureServer(server) {
+      server.middlewares.use(TRAFFIC_ROUTE, handleTraffic)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(TRAFFIC_ROUTE, handleTraffic)
+    },
+  }
+}
@@ -0,0 +1,324 @@
+import type { ServerResponse } from 'node:http'
+import { Readable } from 'node:stream'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import type { Connect, Plugin } from 'vite'
+import { fetchWithFixtures, getProxyMode, MISSING_FIXTURE_CODE } from './proxy-fixtures'
+import { trackProxyExchange } from './proxy-traffic'
+import type { ProxyDeclaration } from './types'
+
+export type ProxyOptions = Omit<ProxyDeclaration, 'headers'> & {
+  name: string
+  // Prefix of error responses, e.g. `Reddit proxy` -> "Reddit proxy request failed: ...".
+  label?: string
+  headers?: Omit<NonNullable<ProxyDeclaration['headers']>, 'request'> & {
+    request?: Record<string, string> | ((target: URL) => Record<string, string>)
+  }
+  // Replaces the global fetch, e.g. to pin DNS results; gets the upstream URL.
+  fetch?: (target: URL, init: RequestInit) => Promise<Response>
+  // Returns a reason to reject the upstream URL with 403, or null to allow it.
+  checkUpstream?: (target: URL, req: Connect.IncomingMessage) => string | null
+}
+
+const DEFAULT_METHODS = ['GET']
+const DEFAULT_RESPONSE_HEADERS = ['content-type']
+const DEFAULT_TIMEOUT_MS = 30_000
+const DEFAULT_MAX_REDIRECTS = 5
+// Never copied between client and upstream. fetch() also decodes compressed
+// bodies, so the upstream encoding and length no longer apply.
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'content-encoding',
+  'content-length',
+  'host',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+])
+// Not passed on by `forward: 'all'`: they describe the browser's view of the
+// dev server, not a request to the upstream.
+const BROWSER_ONLY_HEADERS = new Set(['accept-encoding', 'cookie', 'origin', 'referer'])
+
+function sendText(res: ServerResponse, statusCode: number, message: string): void {
+  res.statusCode = statusCode
+  res.setHeader('content-type', 'text/plain; charset=utf-8')
+  res.end(message)
+}
+
+function isHttpUrl(value: string): boolean {
+  return value.startsWith('http://') || value.startsWith('https://')
+}
+
+// Upstream URL for a request, or null when the client sent an unusable one.
+// Paths resolved against `target` must stay on its origin.
+function resolveUpstreamUrl(options: ProxyOptions, requestUrl: string): URL | null {
+  const base = options.target ? new URL(options.target) : null
+  let upstream: URL
+
+  try {
+    if (options.queryParam) {
+      const value = new URL(requestUrl, 'http://localhost').searchParams.get(options.queryParam)?.trim() ?? ''
+      if (base) {
+        if (!value.startsWith('/')) return null
+        upstream = new URL(value, base)
+      } else {
+        if (!isHttpUrl(value)) return null
+        upstream = new URL(value)
+      }
+    } else if (base) {
+      upstream = new URL(`${base.href.replace(/\/$/, '')}${requestUrl}`)
+    } else {
+      return null
+    }
+  } catch {
+    return null
+  }
+
+  return !base || upstream.origin === base.origin ? upstream : null
+}
+
+function buildRequestHeaders(options: ProxyOptions, req: Connect.IncomingMessage, target: URL, hasBody: boolean): Headers {
+  const headers = new Headers()
+  const forwardRule = options.headers?.forward ?? []
+  const forward = [
+    ...(forwardRule === 'all'
+      ? Object.keys(req.headers).filter((name) => !BROWSER_ONLY_HEADERS.has(name) && !name.startsWith('sec-'))
+      : forwardRule),
+    ...(hasBody ? ['content-type'] : []),
+  ]
+  for (const name of forward) {
+    const value = req.headers[name.toLowerCase()]
+    if (typeof value === 'string' && !HOP_BY_HOP_HEADERS.has(name.toLowerCase())) {
+      headers.set(name, value)
+    }
+  }
+
+  const request = options.headers?.request
+  for (const [name, value] of Object.entries(typeof request === 'function' ? request(target) : request ?? {})) {
+    headers.set(name, value)
+  }
+  return headers
+}
+
+function copyResponseHeaders(options: ProxyOptions, upstream: Response, res: ServerResponse): void {
+  const allowed = options.headers?.response ?? DEFAULT_RESPONSE_HEADERS
+  const names = allowed === 'all' ? null : new Set(allowed.map((name) => name.toLowerCase()))
+  upstream.headers.forEach((value, name) => {
+    const copy = names ? names.has(name) : !HOP_BY_HOP_HEADERS.has(name) && name !== 'set-cookie'
+    if (copy || (name === 'location' && upstream.status >= 300 && upstream.status < 400)) {
+      res.setHeader(name, value)
+    }
+  })
+  // Headers.forEach joins cookies; keep them separate.
+  const cookies = upstream.headers.getSetCookie()
+  if (cookies.length > 0 && (names ? names.has('set-cookie') : true)) {
+    res.setHeader('set-cookie', cookies)
+  }
+}
+
+async function readRequestBody(req: Connect.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+// A redirect hop must pass the same rules as the first request: http(s),
+// the origin of `target` when set, and `checkUpstream`.
+function checkRedirect(options: ProxyOptions, location: URL, req: Connect.IncomingMessage): string | null {
+  if (!isHttpUrl(location.href)) {
+    return `Redirect to ${location.href} rejected: not an http(s) URL`
+  }
+  if (options.target && location.origin !== new URL(options.target).origin) {
+    return `Redirect to ${location.href} rejected: it leaves ${new URL(options.target).origin}`
+  }
+  const rejection = options.checkUpstream?.(location, req)
+  return rejection ? `Redirect to ${location.href} rejected: ${rejection}` : null
+}
+
+// Redirects are only followed for requests without a body, which cannot be
+// replayed; other methods get the 3xx response. Each hop is validated again.
+async function fetchUpstream(
+  options: ProxyOptions,
+  target: URL,
+  init: RequestInit,
+  req: Connect.IncomingMessage,
+): Promise<Response> {
+  const doFetch = options.fetch ?? ((url: URL, requestInit: RequestInit) => fetch(url, requestInit))
+  const follow = options.redirect !== 'manual' && (init.method === 'GET' || init.method === 'HEAD')
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+
+  let url = target
+  for (let redirects = 0; ; redirects += 1) {
+    const response = await doFetch(url, { ...init, redirect: 'manual' })
+    const location = response.headers.get('location')
+    if (!follow || !location || response.status < 300 || response.status >= 400) {
+      return response
+    }
+    if (redirects >= maxRedirects) {
+      await response.body?.cancel()
+      throw new Error(`Too many redirects (more than ${maxRedirects})`)
+    }
+    await response.body?.cancel()
+    url = new URL(location, url)
+    const rejection = checkRedirect(options, url, req)
+    if (rejection) {
+      throw new Error(rejection)
+    }
+  }
+}
+
+/**
+ * Creates a dev/preview server proxy for one route: method check, upstream
+ * URL from a path prefix or a query parameter, header rules, server-side
+ * redirects, a response timeout (504) and 502 on upstream errors. Bodies are
+ * streamed unless `stream: false`. Upstream requests go through
+ * PROXY_MODE record/replay (see proxy-fixtures.ts) and are logged at
+ * /__traffic (see proxy-traffic.ts).
+ *
+ *   createProxyPlugin({ name: 'weather-proxy', route: '/__weather', target: 'https://api.weather.example' })
+ */
+export function createProxyPlugin(options: ProxyOptions): Plugin {
+  if (!options.target && !options.queryParam) {
+    throw new Error(`[${options.name}] a proxy needs "target", "queryParam" or both`)
+  }
+  if (options.target && !isHttpUrl(options.target)) {
+    throw new Error(`[${options.name}] "target" must be an http(s) URL (got ${options.target})`)
+  }
+
+  const label = options.label ?? options.name
+  const methods = (options.methods ?? DEFAULT_METHODS).map((method) => method.toUpperCase())
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS
+
+  const handle = async (req: Connect.IncomingMessage, res: ServerResponse): Promise<void> => {
+    const method = (req.method ?? 'GET').toUpperCase()
+    const exchange = trackProxyExchange(options.name, req, res)
+    if (!methods.includes(method)) {
+      res.setHeader('allow', methods.join(', '))
+      sendText(res, 405, 'Method Not Allowed')
+      return
+    }
+
+    const target = resolveUpstreamUrl(options, req.url ?? '/')
+    if (!target) {
+      sendText(res, 400, options.queryParam
+        ? `Missing or invalid "${options.queryParam}" query parameter`
+        : 'Invalid upstream path')
+      return
+    }
+    exchange.setUpstream(target)
+    const rejection = options.checkUpstream?.(target, req)
+    if (rejection) {
+      sendText(res, 403, rejection)
+      return
+    }
+
+    const hasBody = method !== 'GET' && method !== 'HEAD'
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeout)
+    try {
+      // Fixtures are keyed by the body, so record/replay buffer it.
+      const bufferedBody = hasBody && getProxyMode() !== 'passthrough' ? await readRequestBody(req) : null
+      if (bufferedBody) exchange.setRequestBody(bufferedBody)
+      const init: RequestInit & { duplex?: 'half' } = {
+        method,
+        headers: buildRequestHeaders(options, req, target, hasBody),
+        signal: controller.signal,
+        ...(bufferedBody ? { body: new Uint8Array(bufferedBody) } : {}),
+        ...(hasBody && !bufferedBody
+          ? { body: Readable.toWeb(exchange.tapRequestBody(req)) as ReadableStream, duplex: 'half' }
+          : {}),
+      }
+      const upstream = await fetchWithFixtures(
+        { method, url: target, body: bufferedBody },
+        () => fetchUpstream(options, target, init, req),
+      )
+      clearTimeout(timer)
+      exchange.responseStarted()
+
+      res.statusCode = upstream.status
+      copyResponseHeaders(options, upstream, res)
+      if (!upstream.body || method === 'HEAD') {
+        res.end()
+      } else if (options.stream === false) {
+        res.end(Buffer.from(await upstream.arrayBuffer()))
+      } else {
+        Readable.fromWeb(upstream.body as NodeReadableStream)
+          .on('error', () => res.destroy())
+          .pipe(res)
+      }
+    } catch (error) {
+      clearTimeout(timer)
+      const message = error instanceof Error ? error.message : String(error)
+      exchange.fail(controller.signal.aborted ? `timed out after ${timeout}ms` : message)
+      if (res.headersSent) {
+        res.destroy()
+        return
+      }
+      if (controller.signal.aborted) {
+        sendText(res, 504, `${label} request timed out after ${timeout}ms`)
+        return
+      }
+      // Missing fixtures are already reported by proxy-fixtures.
+      if ((error as NodeJS.ErrnoException | null)?.code !== MISSING_FIXTURE_CODE) {
+        console.warn(`[${options.name}] ${target.href} failed: ${message}`)
+      }
+      sendText(res, 502, `${label} request failed: ${message}`)
+    }
+  }
+
+  return {
+    name: options.name,
+    configureServer(server) {
+      server.middlewares.use(options.route, handle)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(options.route, handle)
+    },
+  }
+}
+
+/**
+ * Proxies declared in the app's apps.json entry (`proxies`), named after
+ * their route so they show up in /__plugins and can be disabled.
+ */
+export function createDeclaredProxyPlugins(declarations: ProxyDeclaration[]): Plugin[] {
+  return declarations.map((declaration) => createProxyPlugin({ ...declaration, name: `proxy:${declaration.route}` }))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isHeaderRules(value: unknown): boolean {
+  if (value === undefined) return true
+  if (!isPlainObject(value)) return false
+  return (value.request === undefined || (isPlainObject(value.request) && Object.values(value.request).every((item) => typeof item === 'string')))
+    && (value.forward === undefined || value.forward === 'all' || isStringList(value.forward))
+    && (value.response === undefined || value.response === 'all' || isStringList(value.response))
+}
+
+/** Shape check used when validating apps.json `proxies`. */
+export function isProxyDeclaration(value: unknown): value is ProxyDeclaration {
+  if (!isPlainObject(value)) return false
+  const { route, target, queryParam, methods, headers, redirect, maxRedirects, timeout, stream } = value
+
+  return typeof route === 'string' && route.startsWith('/')
+    && (target !== undefined || queryParam !== undefined)
+    && (target === undefined || (typeof target === 'string' && isHttpUrl(target)))
+    && (queryParam === undefined || typeof queryParam === 'string')
+    && (methods === undefined || isStringList(methods))
+    && isHeaderRules(headers)
+    && (redirect === undefined || redirect === 'follow' || redirect === 'manual')
+    && (maxRedirects === undefined || (Number.isInteger(maxRedirects) && (maxRedirects as number) >= 0))
+    && (timeout === undefined || (typeof timeout === 'number' && timeout > 0))
+    && (stream === undefined || typeof stream === 'boolean')
+}
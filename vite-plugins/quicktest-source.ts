@@ -0,0 +1,128 @@
+import { defaultAllowedOrigins } from 'vite'
+import type { Connect, Plugin, WebSocketClient } from 'vite'
+
+const SOURCE_ROUTE = '/__quicktest/source'
+// Custom HMR events shared with apps/quicktest/src/quicktest-app.ts.
+const READY_EVENT = 'even-dev:quicktest-ready'
+const SOURCE_EVENT = 'even-dev:quicktest-source'
+const MAX_SOURCE_BYTES = 1024 * 1024
+
+type ServerResponse = Parameters<Connect.NextHandleFunction>[1]
+
+function sendJson(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.statusCode = status
+  res.setHeader('content-type', 'application/json; charset=utf-8')
+  res.end(JSON.stringify(body))
+}
+
+// The pushed source runs in the quicktest page, and the dev server listens on
+// the LAN, so only clients on this machine may send it.
+function isLoopbackAddress(address: string | undefined): boolean {
+  if (!address) return false
+  const ipv4 = address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address
+  return address === '::1' || ipv4.startsWith('127.')
+}
+
+// Browsers on this machine must also come from the dev server's own pages or
+// another loopback origin (answered by Vite's default CORS setup); other
+// tools send no Origin.
+function isAllowedOrigin(req: Connect.IncomingMessage): boolean {
+  const origin = req.headers.origin
+  if (!origin) return true
+  if (defaultAllowedOrigins.test(origin)) return true
+  try {
+    return new URL(origin).host === req.headers.host
+  } catch {
+    return false
+  }
+}
+
+async function readSource(req: Connect.IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk as Buffer
+    size += buffer.length
+    if (size > MAX_SOURCE_BYTES) return null
+    chunks.push(buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+// Raw source, or `{ "source": "..." }` with a JSON content type.
+function parseSource(body: string, contentType: string | undefined): string {
+  if (!contentType?.includes('json')) return body
+  const parsed = JSON.parse(body) as { source?: unknown }
+  if (typeof parsed.source !== 'string') {
+    throw new Error('JSON body must be { "source": "<generated source>" }')
+  }
+  return parsed.source
+}
+
+/**
+ * POST /__quicktest/source takes generated UI source (e.g. misc/editor output
+ * posted with curl) and sends it over Vite's HMR websocket to every open
+ * quicktest page, which loads it into its source box and re-renders it on the
+ * glasses. Pages announce themselves on every websocket (re)connect.
+ */
+export default function quicktestSource(): Plugin {
+  // Pages announce themselves, so other apps sharing the websocket are skipped.
+  const pages = new Set<WebSocketClient>()
+
+  return {
+    name: 'quicktest-source',
+    configureServer(server) {
+      server.ws.on(READY_EVENT, (_data: unknown, client: WebSocketClient) => {
+        if (pages.has(client)) return
+        pages.add(client)
+        client.socket.once('close', () => pages.delete(client))
+      })
+
+      server.middlewares.use(SOURCE_ROUTE, async (req, res) => {
+        if (!isLoopbackAddress(req.socket.remoteAddress)) {
+          sendJson(res, 403, { ok: false, error: 'Quicktest source can only be pushed from the machine running the dev server.' })
+          return
+        }
+        if (!isAllowedOrigin(req)) {
+          sendJson(res, 403, { ok: false, error: `Origin ${req.headers.origin} may not push quicktest source.` })
+          return
+        }
+
+        if (req.method !== 'POST') {
+          res.statusCode = 405
+          res.setHeader('content-type', 'text/plain; charset=utf-8')
+          res.end('Method Not Allowed')
+          return
+        }
+
+        let source: string
+        try {
+          const body = await readSource(req)
+          if (body === null) {
+            sendJson(res, 413, { ok: false, error: `Source is larger than ${MAX_SOURCE_BYTES} bytes.` })
+            return
+          }
+          source = parseSource(body, req.headers['content-type'])
+        } catch (error) {
+          sendJson(res, 400, { ok: false, error: error instanceof Error ? error.message : String(error) })
+          return
+        }
+
+        if (!source.trim()) {
+          sendJson(res, 400, { ok: false, error: 'Source is empty.' })
+          return
+        }
+        if (pages.size === 0) {
+          sendJson(res, 503, { ok: false, error: 'No quicktest page is open.' })
+          return
+        }
+
+        for (const page of pages) {
+          page.send(SOURCE_EVENT, { source })
+        }
+        console.log(`[quicktest-source] Sent ${Buffer.byteLength(source)} bytes of source to ${pages.size} quicktest page(s)`)
+        sendJson(res, 200, { ok: true, pages: pages.size })
+      })
+    },
+  }
+}
@@ -0,0 +1,269 @@
+import { execFileSync } from 'node:child_process'
+import { existsSync, readFileSync } from 'node:fs'
+import { isAbsolute, relative, resolve } from 'node:path'
+import { isProxyDeclaration } from './proxy'
+import type { AppLockEntry, AppRegistryEntry, AppSourceKind, ProxyDeclaration } from './types'
+
+export const APPS_REGISTRY_FILE = 'apps.json'
+export const APPS_LOCK_FILE = 'apps.lock.json'
+export const APPS_CACHE_DIR = resolve('.apps-cache')
+
+const APP_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+type FieldRule = {
+  required?: boolean
+  expected: string
+  check: (value: unknown) => boolean
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Object-form apps.json entry schema. String entries are normalized to
+// `{ source }` (with the legacy `url#subpath` suffix split off) before checking.
+const ENTRY_SCHEMA: Record<string, FieldRule> = {
+  source: {
+    required: true,
+    expected: 'a git URL (https:// or git@) or a local path without a "#" suffix',
+    check: (value) => isNonEmptyString(value) && !value.includes('#'),
+  },
+  ref: {
+    expected: 'a branch, tag or commit name (no whitespace, must not start with "-")',
+    check: (value) => isNonEmptyString(value) && !/\s/.test(value) && !value.startsWith('-'),
+  },
+  subpath: {
+    expected: 'a relative path inside the app source',
+    check: (value) => isNonEmptyString(value) && !isAbsolute(value),
+  },
+  description: {
+    expected: 'a string',
+    check: (value) => typeof value === 'string',
+  },
+  env: {
+    expected: 'an object mapping env var names to string values',
+    check: (value) =>
+      isPlainObject(value)
+      && Object.entries(value).every(([key, item]) => ENV_KEY_PATTERN.test(key) && typeof item === 'string'),
+  },
+  pluginOptions: {
+    expected: 'an object',
+    check: isPlainObject,
+  },
+  disabledPlugins: {
+    expected: 'an array of plugin names',
+    check: (value) => Array.isArray(value) && value.every(isNonEmptyString),
+  },
+  sharedDirs: {
+    expected: 'an array of directories (relative to the app directory) the app imports from',
+    check: (value) => Array.isArray(value) && value.every(isNonEmptyString),
+  },
+  proxies: {
+    expected: 'an array of { route, target and/or queryParam, ... } proxy declarations',
+    check: (value) => Array.isArray(value) && value.every(isProxyDeclaration),
+  },
+  fetchShim: {
+    expected: 'a boolean',
+    check: (value) => typeof value === 'boolean',
+  },
+  tags: {
+    expected: 'an array of non-empty strings',
+    check: (value) => Array.isArray(value) && value.every(isNonEmptyString),
+  },
+}
+
+// The checkout is the whole repository; `#subpath` only picks a directory in
+// it. Same rule as scripts/apps-lock.js.
+function toRepoSource(source: string): string {
+  return source.split('#')[0] ?? ''
+}
+
+export function isGitUrl(value: string): boolean {
+  const base = toRepoSource(value)
+  return base.startsWith('https://') || base.startsWith('git@')
+}
+
+function normalizeRawEntry(value: unknown): Record<string, unknown> | null {
+  if (typeof value === 'string') {
+    const [source, subpath] = value.split('#')
+    return subpath ? { source, subpath } : { source }
+  }
+  return isPlainObject(value) ? value : null
+}
+
+function resolveEntryDir(name: string, kind: AppSourceKind, source: string, subpath: string | null): string {
+  const base = kind === 'git' ? resolve(APPS_CACHE_DIR, name) : resolve(source)
+  return subpath ? resolve(base, subpath) : base
+}
+
+function parseRegistryEntry(name: string, value: unknown, issues: string[]): AppRegistryEntry | null {
+  const label = `"${name}"`
+  if (!APP_NAME_PATTERN.test(name)) {
+    issues.push(`${label}: app name may only contain letters, digits, ".", "_" and "-"`)
+  }
+
+  const raw = normalizeRawEntry(value)
+  if (!raw) {
+    issues.push(`${label}: expected a string or an object with a "source" field`)
+    return null
+  }
+
+  const issueCount = issues.length
+  for (const key of Object.keys(raw)) {
+    if (!(key in ENTRY_SCHEMA)) {
+      issues.push(`${label}: unknown field "${key}" (allowed: ${Object.keys(ENTRY_SCHEMA).join(', ')})`)
+    }
+  }
+  for (const [key, rule] of Object.entries(ENTRY_SCHEMA)) {
+    if (raw[key] === undefined) {
+      if (rule.required) issues.push(`${label}: missing required field "${key}"`)
+      continue
+    }
+    if (!rule.check(raw[key])) {
+      issues.push(`${label}: "${key}" must be ${rule.expected}`)
+    }
+  }
+  if (issues.length > issueCount) {
+    return null
+  }
+
+  const source = raw.source as string
+  const kind: AppSourceKind = isGitUrl(source) ? 'git' : 'local'
+  const subpath = (raw.subpath as string | undefined) ?? null
+  if (kind === 'local' && raw.ref !== undefined) {
+    issues.push(`${label}: "ref" is only supported for git sources`)
+    return null
+  }
+
+  const dir = resolveEntryDir(name, kind, source, subpath)
+  if (subpath && relative(resolveEntryDir(name, kind, source, null), dir).startsWith('..')) {
+    issues.push(`${label}: "subpath" must stay inside the app source`)
+    return null
+  }
+
+  return {
+    name,
+    kind,
+    source,
+    ref: (raw.ref as string | undefined) ?? null,
+    subpath,
+    description: (raw.description as string | undefined) ?? null,
+    env: { ...(raw.env as Record<string, string> | undefined) },
+    pluginOptions: { ...(raw.pluginOptions as Record<string, unknown> | undefined) },
+    disabledPlugins: [...((raw.disabledPlugins as string[] | undefined) ?? [])],
+    proxies: [...((raw.proxies as ProxyDeclaration[] | undefined) ?? [])],
+    fetchShim: raw.fetchShim === true,
+    sharedDirs: ((raw.sharedDirs as string[] | undefined) ?? []).map((sharedDir) => resolve(dir, sharedDir)),
+    tags: [...((raw.tags as string[] | undefined) ?? [])],
+    dir,
+    locked: null,
+  }
+}
+
+function readLockEntries(file: string): Record<string, AppLockEntry> {
+  if (!existsSync(file)) {
+    return {}
+  }
+
+  try {
+    const lock = JSON.parse(readFileSync(file, 'utf8')) as { apps?: Record<string, AppLockEntry> }
+    return isPlainObject(lock.apps) ? lock.apps : {}
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`[registry] ${file} is not valid JSON: ${reason}`)
+  }
+}
+
+// A lock entry only applies while apps.json still asks for the same source
+// and ref; editing either makes start-even.sh re-resolve and re-record it.
+function attachLockEntries(entries: Record<string, AppRegistryEntry>, lockFile: string): void {
+  const lockEntries = readLockEntries(lockFile)
+  for (const entry of Object.values(entries)) {
+    const locked = lockEntries[entry.name]
+    if (
+      entry.kind === 'git'
+      && locked
+      && toRepoSource(locked.source) === toRepoSource(entry.source)
+      && (locked.ref ?? null) === entry.ref
+    ) {
+      entry.locked = locked
+    }
+  }
+}
+
+function readCheckoutCommit(dir: string): string | null {
+  try {
+    return execFileSync('git', ['-C', dir, 'rev-parse', 'HEAD'], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Warns about cached git checkouts that no longer match apps.lock.json, e.g.
+ * after a manual `git pull` inside .apps-cache or when vite is started
+ * without going through start-even.sh.
+ */
+export function reportLockDrift(entries: Record<string, AppRegistryEntry>): void {
+  for (const entry of Object.values(entries)) {
+    if (!entry.locked || !existsSync(entry.dir)) {
+      continue
+    }
+
+    const commit = readCheckoutCommit(entry.dir)
+    if (commit && commit !== entry.locked.commit) {
+      console.warn(
+        `[registry] ${entry.name}: checkout is at ${commit.slice(0, 12)} but ${APPS_LOCK_FILE} pins `
+        + `${entry.locked.commit.slice(0, 12)}; run ./start-even.sh ${entry.name} to restore it`
+        + ` or ./start-even.sh --update ${entry.name} to re-lock.`,
+      )
+    }
+  }
+}
+
+/**
+ * Reads and validates apps.json. Accepts both `"name": "url-or-path[#subpath]"`
+ * strings and `{ source, ref, subpath, description, env, pluginOptions,
+ * disabledPlugins, sharedDirs, proxies, fetchShim, tags }`
+ * objects. All problems are collected and reported together so a broken
+ * registry fails the dev server startup with one readable message. Git
+ * entries carry their apps.lock.json record when it still applies.
+ */
+export function loadAppRegistry(file = APPS_REGISTRY_FILE, lockFile = APPS_LOCK_FILE): Record<string, AppRegistryEntry> {
+  if (!existsSync(file)) {
+    return {}
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf8'))
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`[registry] ${file} is not valid JSON: ${reason}`)
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new Error(`[registry] ${file} must contain an object mapping app names to entries`)
+  }
+
+  const issues: string[] = []
+  const entries: Record<string, AppRegistryEntry> = {}
+  for (const [name, value] of Object.entries(raw)) {
+    const entry = parseRegistryEntry(name, value, issues)
+    if (entry) {
+      entries[name] = entry
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`[registry] Invalid ${file}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`)
+  }
+
+  attachLockEntries(entries, lockFile)
+  return entries
+}
@@ -1,5 +1,101 @@
+export type PluginLogger = {
+  info: (message: string) => void
+  warn: (message: string) => void
+  error: (message: string) => void
+}
+
+// Live values: updated once Vite has resolved its config and the server is
+// listening, so read them when handling requests rather than at plugin setup.
+export type PluginServerInfo = {
+  port: number
+  origin: string
+}
+
+export type AppManifest = Record<string, unknown> & {
+  package_id?: string
+  edition?: string
+  name?: string
+  version?: string
+  min_app_version?: string
+  entrypoint?: string
+  permissions?: unknown
+}
+
+// JSON form of a proxy (apps.json `proxies`); see createProxyPlugin.
+export type ProxyDeclaration = {
+  // Route prefix, e.g. `/__weather_api`.
+  route: string
+  // Upstream base URL. Without `queryParam` the rest of the request path is
+  // appended to it.
+  target?: string
+  // Query parameter carrying the upstream path (resolved against `target`) or,
+  // without `target`, an absolute http(s) URL.
+  queryParam?: string
+  // Allowed request methods (default GET).
+  methods?: string[]
+  headers?: {
+    // Headers sent upstream.
+    request?: Record<string, string>
+    // Client request headers passed through (lowercase names), or `all`
+    // except hop-by-hop and browser-only ones (cookie, origin, referer, sec-*).
+    forward?: 'all' | string[]
+    // Upstream response headers copied back (default content-type).
+    response?: 'all' | string[]
+  }
+  // `follow` (default) resolves redirects server-side; `manual` returns them.
+  redirect?: 'follow' | 'manual'
+  maxRedirects?: number
+  // Milliseconds until the upstream response headers arrive (default 30000).
+  timeout?: number
+  // Pipe the upstream body instead of buffering it (default true).
+  stream?: boolean
+}
+
 export type PluginContext = {
   externalApps: Record<string, string>
   selectedApp: string
   selectedAppDir: string | null
+  // Prefixed with `[<selectedApp>]`.
+  logger: PluginLogger
+  // Parsed app.json of the selected app (null when missing or not valid JSON).
+  manifest: AppManifest | null
+  // `pluginOptions` of the selected app's apps.json entry.
+  pluginOptions: Record<string, unknown>
+  // Plugin names switched off through `disabledPlugins` in apps.json.
+  disabledPlugins: string[]
+  // Proxies declared through `proxies` in apps.json.
+  proxies: ProxyDeclaration[]
+  server: PluginServerInfo
+  // Per-app scratch directory (node_modules/.even-dev/<app>), created on startup.
+  cacheDir: string
+}
+
+export type AppSourceKind = 'git' | 'local'
+
+export type AppRegistryEntry = {
+  name: string
+  kind: AppSourceKind
+  source: string
+  ref: string | null
+  subpath: string | null
+  description: string | null
+  env: Record<string, string>
+  pluginOptions: Record<string, unknown>
+  disabledPlugins: string[]
+  // Absolute paths, resolved from the app directory.
+  sharedDirs: string[]
+  proxies: ProxyDeclaration[]
+  // Inject the client fetch/XHR shim into the app's index.html.
+  fetchShim: boolean
+  tags: string[]
+  dir: string
+  locked: AppLockEntry | null
+}
+
+export type AppLockEntry = {
+  source: string
+  ref: string | null
+  commit: string
+  resolvedAt: string
+  integrity: string
 }
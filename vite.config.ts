@@ -1,41 +1,53 @@
 // vite.config.ts
-import { existsSync, readFileSync } from 'node:fs'
-import { resolve } from 'node:path'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { dirname, relative, resolve } from 'node:path'
 import { defineConfig } from 'vite'
-import type { Plugin } from 'vite'
-import { loadAppPlugins } from './vite-plugins'
+import type { HtmlTagDescriptor, Plugin, UserConfig, ViteDevServer } from 'vite'
+import {
+  collectPluginModuleFiles,
+  discoverPluginDirs,
+  invalidatePluginModule,
+  isPluginDirEntry,
+  loadDefaultPlugins,
+  loadDiscoveredPlugins,
+} from './vite-plugins'
+import { prepareAppEnv, resetAppEnv } from './vite-plugins/app-env'
+import { createFetchShimTags, fetchShimProxy } from './vite-plugins/fetch-shim'
+import pluginDiagnostics from './vite-plugins/plugin-diagnostics'
+import previewBridge from './vite-plugins/preview-bridge'
+import appSwitcher from './vite-plugins/app-switcher'
+import { createPluginContext, createServerInfo, serverInfoPlugin } from './vite-plugins/context'
+import {
+  filterAppConfigPlugins,
+  loadAppViteConfig,
+  mergeAppViteConfig,
+} from './vite-plugins/app-vite-config'
+import type { PluginContext } from './vite-plugins/types'
+import { loadAppRegistry, reportLockDrift } from './vite-plugins/registry'
 
 // ---------------------------------------------------------------------------
 // Standalone app registry (apps.json + APP_PATH env override)
 // ---------------------------------------------------------------------------
 
-const APPS_CACHE_DIR = resolve('.apps-cache')
+const appRegistry = loadAppRegistry()
+reportLockDrift(appRegistry)
 
-function isGitUrl(value: string): boolean {
-  const base = value.split('#')[0] ?? ''
-  return base.startsWith('https://') || base.startsWith('git@')
-}
-
-function resolveGitEntry(name: string, value: string): string {
-  const [, subpath] = value.split('#')
-  const base = resolve(APPS_CACHE_DIR, name)
-  return subpath ? resolve(base, subpath) : base
+function readAppPathOverride(): { name: string; dir: string } | null {
+  const appName = process.env.APP_NAME ?? process.env.VITE_APP_NAME ?? ''
+  const appPath = process.env.APP_PATH ?? ''
+  return appName && appPath ? { name: appName, dir: resolve(appPath) } : null
 }
 
 function loadStandaloneApps(): Record<string, string> {
   const apps: Record<string, string> = {}
 
-  if (existsSync('apps.json')) {
-    const raw = JSON.parse(readFileSync('apps.json', 'utf8')) as Record<string, string>
-    for (const [name, value] of Object.entries(raw)) {
-      apps[name] = isGitUrl(value) ? resolveGitEntry(name, value) : resolve(value)
-    }
+  for (const [name, entry] of Object.entries(appRegistry)) {
+    apps[name] = entry.dir
   }
 
-  const appName = process.env.APP_NAME ?? process.env.VITE_APP_NAME ?? ''
-  const appPath = process.env.APP_PATH ?? ''
-  if (appName && appPath) {
-    apps[appName] = resolve(appPath)
+  const override = readAppPathOverride()
+  if (override) {
+    apps[override.name] = override.dir
   }
 
   return apps
@@ -43,38 +55,83 @@ function loadStandaloneApps(): Record<string, string> {
 
 const standaloneApps = loadStandaloneApps()
 
+function discoverBuiltInApps(): Record<string, string> {
+  const apps: Record<string, string> = {}
+  const appsRoot = resolve('apps')
+  if (!existsSync(appsRoot)) return apps
+
+  for (const entry of readdirSync(appsRoot, { withFileTypes: true })) {
+    if (!entry.isDirectory() || entry.name.startsWith('_') || entry.name.startsWith('.')) continue
+    apps[entry.name] = resolve(appsRoot, entry.name)
+  }
+  return apps
+}
+
+// Every app the dev server can serve. Built-in apps take precedence over
+// registry entries like in start-even.sh; an explicit APP_PATH wins over both.
+function loadSelectableApps(): Record<string, string> {
+  const apps = { ...standaloneApps, ...discoverBuiltInApps() }
+  const override = readAppPathOverride()
+  if (override) {
+    apps[override.name] = override.dir
+  }
+  return apps
+}
+
+const selectableApps = loadSelectableApps()
+
+// /__select_app records its choice here before restarting Vite, so the
+// reloaded config builds every plugin and setting for the new app. APP_NAME and
+// APP_PATH stay untouched to keep an APP_PATH-only app selectable.
+const SELECTED_APP_ENV = 'EVEN_DEV_SELECTED_APP'
+const initialApp = process.env[SELECTED_APP_ENV] || process.env.VITE_APP_NAME || process.env.APP_NAME || ''
+const appSelection: { name: string; dir: string | null } = {
+  name: initialApp,
+  dir: selectableApps[initialApp] ?? null,
+}
+
+// Shared by every plugin context; serverInfoPlugin() fills in the real port.
+const serverInfo = createServerInfo()
+
+function createAppContext(name: string, appDir: string | null): PluginContext {
+  return createPluginContext({
+    externalApps: standaloneApps,
+    appName: name,
+    appDir,
+    registry: appRegistry,
+    server: serverInfo,
+  })
+}
+
 // ---------------------------------------------------------------------------
 // Selected standalone app HTML: serve the app's own index.html
 // ---------------------------------------------------------------------------
 
-function standaloneAppHtmlPlugin(): Plugin | null {
-  const selectedApp = process.env.VITE_APP_NAME ?? process.env.APP_NAME ?? ''
-  const appDir = standaloneApps[selectedApp]
-  if (!appDir) return null
-
-  const absAppDir = resolve(appDir)
-  const htmlPath = resolve(absAppDir, 'index.html')
-  if (!existsSync(htmlPath)) return null
+async function renderAppHtml(server: ViteDevServer, url: string, absAppDir: string): Promise<string> {
+  const html = readFileSync(resolve(absAppDir, 'index.html'), 'utf-8')
+  // Rewrite local absolute paths to /@fs/ so Vite resolves them
+  // from the external app's directory instead of even-dev's root
+  const rewritten = html.replace(
+    /(src|href)=(["'])\/(?!\/|@|http)/g,
+    `$1=$2/@fs/${absAppDir}/`,
+  )
+  return server.transformIndexHtml(url, rewritten)
+}
 
+function standaloneAppHtmlPlugin(): Plugin {
   return {
     name: 'external-app-html',
     configureServer(server) {
       server.middlewares.use(async (req, res, next) => {
         const url = req.url ?? ''
-        if (url !== '/' && url !== '/index.html') {
+        const absAppDir = appSelection.dir
+        if ((url !== '/' && url !== '/index.html') || !absAppDir || !existsSync(resolve(absAppDir, 'index.html'))) {
           next()
           return
         }
 
         try {
-          let html = readFileSync(htmlPath, 'utf-8')
-          // Rewrite local absolute paths to /@fs/ so Vite resolves them
-          // from the external app's directory instead of even-dev's root
-          html = html.replace(
-            /(src|href)=(["'])\/(?!\/|@|http)/g,
-            `$1=$2/@fs/${absAppDir}/`,
-          )
-          html = await server.transformIndexHtml(url, html)
+          const html = await renderAppHtml(server, url, absAppDir)
           res.statusCode = 200
           res.setHeader('Content-Type', 'text/html')
           res.end(html)
@@ -83,45 +140,339 @@ function standaloneAppHtmlPlugin(): Plugin | null {
         }
       })
     },
+    transformIndexHtml(_html, ctx): HtmlTagDescriptor[] {
+      return ctx.server ? fetchShimHtmlTags(ctx.path) : []
+    },
   }
 }
 
 // ---------------------------------------------------------------------------
-// fs.allow from selected standalone app directories
+// Multi-app mode (MULTI_APP=1): every app under /apps/<name>/
 // ---------------------------------------------------------------------------
 
+const MULTI_APP_PREFIX = '/apps/'
+const multiAppMode = process.env.MULTI_APP === '1'
+
+const servableApps: Record<string, string> = multiAppMode ? selectableApps : {}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderAppIndexHtml(): string {
+  const rows = Object.entries(servableApps)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, appDir]) => {
+      const ready = existsSync(resolve(appDir, 'index.html'))
+      const description = appRegistry[name]?.description ?? ''
+      const link = ready
+        ? `<a href="${MULTI_APP_PREFIX}${encodeURIComponent(name)}/">${escapeHtml(name)}</a>`
+        : `${escapeHtml(name)} <em>(not available: run ./start-even.sh --update ${escapeHtml(name)})</em>`
+      return `<li>${link}${description ? ` – ${escapeHtml(description)}` : ''}</li>`
+    })
+
+  return `<!doctype html>
+<html>
+<head><meta charset="UTF-8" /><title>even-dev apps</title></head>
+<body style="font-family: system-ui, sans-serif; margin: 24px;">
+  <h1>even-dev apps</h1>
+  <ul>
+    ${rows.join('\n    ')}
+  </ul>
+</body>
+</html>
+`
+}
+
+function multiAppPlugin(): Plugin | null {
+  if (!multiAppMode) return null
+
+  return {
+    name: 'multi-app-html',
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = req.url ?? ''
+        const [pathname = '', query = ''] = url.split(/\?(.*)/s)
+        const isRootIndex = !appSelection.dir && (pathname === '/' || pathname === '/index.html')
+        if (isRootIndex || pathname === MULTI_APP_PREFIX || pathname === MULTI_APP_PREFIX.slice(0, -1)) {
+          res.statusCode = 200
+          res.setHeader('Content-Type', 'text/html')
+          res.end(renderAppIndexHtml())
+          return
+        }
+
+        if (!pathname.startsWith(MULTI_APP_PREFIX)) {
+          next()
+          return
+        }
+
+        const rest = pathname.slice(MULTI_APP_PREFIX.length)
+        const slash = rest.indexOf('/')
+        let name: string
+        try {
+          name = decodeURIComponent(slash === -1 ? rest : rest.slice(0, slash))
+        } catch {
+          res.statusCode = 400
+          res.setHeader('Content-Type', 'text/plain; charset=utf-8')
+          res.end('Malformed app name in URL')
+          return
+        }
+        const appDir = servableApps[name]
+        if (!appDir) {
+          next()
+          return
+        }
+
+        if (slash === -1) {
+          res.statusCode = 302
+          res.setHeader('Location', `${MULTI_APP_PREFIX}${encodeURIComponent(name)}/`)
+          res.end()
+          return
+        }
+
+        const subPath = rest.slice(slash + 1)
+        if (subPath === '' || subPath === 'index.html') {
+          try {
+            const html = await renderAppHtml(server, pathname, appDir)
+            res.statusCode = 200
+            res.setHeader('Content-Type', 'text/html')
+            res.end(html)
+          } catch (e) {
+            next(e)
+          }
+          return
+        }
+
+        // Relative module/asset URLs resolve below the prefix; hand them to
+        // Vite's /@fs/ handling so fs.allow still applies.
+        req.url = `/@fs${appDir}/${subPath}${query ? `?${query}` : ''}`
+        next()
+      })
+    },
+  }
+}
+
+async function loadMultiAppPlugins(selectedApp: string): Promise<Plugin[]> {
+  const plugins: Plugin[] = []
+  for (const [name, appDir] of Object.entries(servableApps)) {
+    if (name === selectedApp) continue
+    plugins.push(...(await loadDiscoveredPlugins(createAppContext(name, appDir))))
+  }
+  return plugins
+}
+
+// ---------------------------------------------------------------------------
+// Fetch shim (FETCH_SHIM=1 or apps.json "fetchShim"): cross-origin calls to
+// declared hosts go through /__fetch_proxy
+// ---------------------------------------------------------------------------
+
+function isFetchShimEnabled(name: string, appDir: string): boolean {
+  const registryEntry = appRegistry[name]
+  return process.env.FETCH_SHIM === '1' || (registryEntry?.dir === appDir && registryEntry.fetchShim)
+}
+
+// Served app with the shim switched on, or null.
+function resolveFetchShimApp(name: string): string | null {
+  const appDir = multiAppMode
+    ? servableApps[name] ?? (name === appSelection.name ? appSelection.dir : null)
+    : name === appSelection.name ? appSelection.dir : null
+  return appDir && isFetchShimEnabled(name, appDir) ? appDir : null
+}
+
+// `path` is /apps/<name>/ for multi-app pages, otherwise the selected app's page.
+function fetchShimHtmlTags(path: string): HtmlTagDescriptor[] {
+  const name = multiAppMode && path.startsWith(MULTI_APP_PREFIX)
+    ? decodeURIComponent(path.slice(MULTI_APP_PREFIX.length).split('/')[0] ?? '')
+    : appSelection.name
+  const appDir = resolveFetchShimApp(name)
+  return appDir ? createFetchShimTags(name, appDir) : []
+}
+
+// ---------------------------------------------------------------------------
+// fs.allow: repo root, the served app(s) and their declared shared directories
+// ---------------------------------------------------------------------------
+
+// Shared directories every app may import from, next to each registry
+// entry's own `sharedDirs`.
+const SHARED_APP_DIRS = [resolve('apps/_shared')]
+
+function getAppFsDirs(name: string, appDir: string): string[] {
+  const registryEntry = appRegistry[name]
+  return registryEntry?.dir === appDir ? [appDir, ...registryEntry.sharedDirs] : [appDir]
+}
+
+// Multi-app mode serves every app; otherwise only the selected app is exposed
+// (the dev server listens on the LAN).
 function buildFsAllow(): string[] {
-  const dirs = new Set<string>()
-  for (const absPath of Object.values(standaloneApps)) {
-    dirs.add(absPath)
-    dirs.add(resolve(absPath, '..'))
+  const apps = multiAppMode
+    ? servableApps
+    : appSelection.dir ? { [appSelection.name]: appSelection.dir } : {}
+
+  const dirs = new Set([resolve('.'), ...SHARED_APP_DIRS])
+  for (const [name, appDir] of Object.entries(apps)) {
+    for (const dir of getAppFsDirs(name, appDir)) {
+      dirs.add(dir)
+    }
   }
   return [...dirs]
 }
 
+function describeFsAllowFix(blockedDir: string): string {
+  const { name, dir: appDir } = appSelection
+  if (!name || !appDir) {
+    return `select the app that needs ${blockedDir}, or serve it with MULTI_APP=1`
+  }
+  const relativeDir = relative(appDir, blockedDir) || '.'
+  const sharedDir = JSON.stringify(relativeDir.length < blockedDir.length ? relativeDir : blockedDir)
+  return appRegistry[name]?.dir === appDir
+    ? `add "sharedDirs": [${sharedDir}] to the "${name}" entry in apps.json and restart`
+    : `add "${name}": { "source": ${JSON.stringify(appDir)}, "sharedDirs": [${sharedDir}] } to apps.json and restart`
+}
+
+function fsAllowPlugin(): Plugin {
+  const reportedDirs = new Set<string>()
+
+  return {
+    name: 'fs-allow',
+    configureServer(server) {
+      // Vite answers these with 403; say which directory is missing and how to allow it.
+      server.middlewares.use((req, _res, next) => {
+        const url = req.url ?? ''
+        if (url.startsWith('/@fs/')) {
+          let filePath: string
+          try {
+            filePath = decodeURIComponent(url.slice('/@fs'.length).split(/[?#]/)[0] ?? '')
+          } catch {
+            // Malformed escapes: nothing to report, Vite answers the request.
+            next()
+            return
+          }
+          const allowed = server.config.server.fs.allow.some((dir) => filePath === dir || filePath.startsWith(`${dir}/`))
+          const blockedDir = dirname(filePath)
+          if (!allowed && existsSync(filePath) && !reportedDirs.has(blockedDir)) {
+            reportedDirs.add(blockedDir)
+            console.warn(
+              `[fs-allow] Blocked /@fs${filePath}: outside the repo, the selected app and its shared directories. `
+              + `To allow it, ${describeFsAllowFix(blockedDir)}.`,
+            )
+          }
+        }
+        next()
+      })
+    },
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Config
 // ---------------------------------------------------------------------------
 
-export default defineConfig(async () => {
-  const selectedApp = process.env.VITE_APP_NAME ?? process.env.APP_NAME ?? ''
-  const selectedAppDir = standaloneApps[selectedApp] ?? null
-
+// `vite build` / `vite preview`: bundle the selected app into dist/<app> and
+// serve that bundle with the same even-dev middlewares as the dev server.
+function buildBundleConfig(appName: string, appDir: string): UserConfig {
   return {
+    root: appDir,
+    base: './',
+    build: {
+      outDir: resolve('dist', appName),
+      emptyOutDir: true,
+    },
+    preview: {
+      host: true,
+      port: 5173,
+    },
+  }
+}
+
+export default defineConfig(async (env) => {
+  const bundleMode = env.command === 'build' || env.isPreview === true
+  if (bundleMode && !appSelection.dir) {
+    throw new Error('[build] No app selected; run ./start-even.sh <app> --build (or set APP_NAME/APP_PATH).')
+  }
+
+  // The previous app's apps.json env must be gone before the new app's config,
+  // plugins and env files see process.env (matters after /__select_app).
+  resetAppEnv()
+  const ctx = createAppContext(appSelection.name, appSelection.dir)
+
+  const appViteConfig = await loadAppViteConfig(ctx, env)
+  // Registry env only applies while the registry entry is the app being served
+  // (a built-in app of the same name takes precedence).
+  const registryEntry = appRegistry[appSelection.name]
+  const appEnvConfig = appSelection.dir
+    ? prepareAppEnv({
+        appName: appSelection.name,
+        appDir: appSelection.dir,
+        mode: env.mode,
+        registryEnv: registryEntry?.dir === appSelection.dir ? registryEntry.env : {},
+        envPrefix: appViteConfig?.settings.envPrefix,
+      })
+    : {}
+  // A framework plugin the app configures itself (with its own options) wins
+  // over the same plugin added by a default framework preset.
+  const appConfigPluginNames = new Set(appViteConfig?.plugins.map((plugin) => plugin.name) ?? [])
+  const defaultPlugins = (await loadDefaultPlugins(ctx)).filter((plugin) => !appConfigPluginNames.has(plugin.name))
+  const discoveredPlugins = await loadDiscoveredPlugins(ctx)
+  const multiAppPlugins = bundleMode ? [] : await loadMultiAppPlugins(appSelection.name)
+  const appConfigPlugins = appViteConfig
+    ? filterAppConfigPlugins(
+        appViteConfig,
+        new Set([...defaultPlugins, ...discoveredPlugins, ...multiAppPlugins].map((plugin) => plugin.name)),
+      )
+    : []
+
+  // Build and preview have no runtime switching, so discovered plugins are
+  // registered directly and their build hooks (e.g. chess generateBundle) run.
+  const hostPlugins: Plugin[] = bundleMode
+    ? [...discoveredPlugins, previewBridge([...defaultPlugins, ...discoveredPlugins])]
+    : [
+        ...appSwitcher({
+          apps: selectableApps,
+          createContext: createAppContext,
+          initialApp: appSelection.name,
+          initialPlugins: discoveredPlugins,
+          onSelect: (name) => {
+            process.env[SELECTED_APP_ENV] = name
+          },
+          preloadedApps: new Set(Object.keys(servableApps).filter((name) => name !== appSelection.name)),
+          pluginModules: {
+            files: collectPluginModuleFiles,
+            dirs: discoverPluginDirs,
+            isDirEntry: isPluginDirEntry,
+            invalidate: invalidatePluginModule,
+            reload: loadDiscoveredPlugins,
+          },
+        }),
+        ...multiAppPlugins,
+      ]
+
+  const rootConfig: UserConfig = {
     plugins: [
+      serverInfoPlugin(serverInfo),
+      pluginDiagnostics(() => appSelection.name),
+      fsAllowPlugin(),
+      multiAppPlugin(),
       standaloneAppHtmlPlugin(),
-      ...(await loadAppPlugins({
-        externalApps: standaloneApps,
-        selectedApp,
-        selectedAppDir,
-      })),
+      fetchShimProxy(resolveFetchShimApp),
+      ...defaultPlugins,
+      ...hostPlugins,
+      // Added directly (not hosted by the switcher) to keep their enforce order.
+      ...appConfigPlugins,
     ].filter(Boolean),
+    ...appEnvConfig,
     server: {
       host: true,
       port: 5173,
       fs: {
-        allow: ['.', ...buildFsAllow()],
+        allow: buildFsAllow(),
       },
     },
+    ...(bundleMode && appSelection.dir ? buildBundleConfig(appSelection.name, appSelection.dir) : {}),
   }
+
+  return appViteConfig ? mergeAppViteConfig(rootConfig, appViteConfig) : rootConfig
 })